@@ -1,12 +1,17 @@
 import { ApiRouteConfig, Handlers } from 'motia'
 import { z } from 'zod'
 import { randomBytes } from 'crypto'
+import { RequesterAuth, UserAuth } from '../services/api-auth'
 import { accessRequestSchema } from '../services/glasskiss-types'
+import { KillSwitch } from '../services/kill-switch'
+import { RequestStateMachine } from '../services/request-state-machine'
+import { ResourceRegistry } from '../services/resource-registry'
 
 const responseSchema = z.object({
     requestId: z.string(),
     status: z.string(),
     message: z.string(),
+    requesterToken: z.string(),  // shown once; authenticates the requester on /access-request/:requestId/*
 })
 
 export const config: ApiRouteConfig = {
@@ -20,6 +25,7 @@ export const config: ApiRouteConfig = {
     responseSchema: {
         201: responseSchema,
         400: z.object({ error: z.string() }),
+        423: z.object({ error: z.string() }),
     },
     emits: ['calculate-risk-score'],
 }
@@ -28,8 +34,45 @@ export const handler: Handlers['AccessRequestAPI'] = async (
     req,
     { logger, emit, state }
 ) => {
+    // Self-approval and pairing checks compare against the requester, so it
+    // must be who the caller is, not a name they typed
+    const identity = UserAuth.verify(req.headers)
+    if ('denied' in identity) {
+        logger.warn('Access request denied', { status: identity.denied.status })
+        return identity.denied as any
+    }
+    const requester = identity.user
+
     try {
-        const { requester, resource, accessLevel, reason, duration } = req.body
+        const { resource, accessLevel, reason, duration } = req.body
+
+        // Nothing new is granted during an emergency freeze
+        const freeze = await KillSwitch.get(state)
+        if (freeze?.frozen) {
+            logger.warn('Access request refused during freeze', { requester, resource, freezeId: freeze.id })
+            return {
+                status: 423,
+                body: { error: `Access requests are frozen: ${freeze.reason}` },
+            }
+        }
+
+        // Only registered resources can be requested, at the levels they allow
+        const definition = ResourceRegistry.get(resource)
+        if (!definition) {
+            logger.warn('Access request for unknown resource', { requester, resource })
+            return {
+                status: 400,
+                body: { error: `Unknown resource: ${resource}` },
+            }
+        }
+        if (!definition.allowedAccessLevels.includes(accessLevel)) {
+            return {
+                status: 400,
+                body: {
+                    error: `${accessLevel} is not available for ${resource}. Allowed: ${definition.allowedAccessLevels.join(', ')}`,
+                },
+            }
+        }
 
         // Generate unique request ID
         const requestId = randomBytes(12).toString('hex')
@@ -41,6 +84,9 @@ export const handler: Handlers['AccessRequestAPI'] = async (
             accessLevel,
         })
 
+        // Only the hash is stored; the token itself goes back to the requester once
+        const { token, tokenHash } = RequesterAuth.issue()
+
         // Initialize state
         await state.set('access-requests', requestId, {
             id: requestId,
@@ -51,9 +97,11 @@ export const handler: Handlers['AccessRequestAPI'] = async (
             duration,
             riskScore: 0,
             status: 'pending_risk',
+            statusHistory: RequestStateMachine.created(requester),
             approvers: [],
             requiredApprovals: 0,
             createdAt: new Date().toISOString(),
+            requesterTokenHash: tokenHash,
         })
 
         // Emit to risk calculator
@@ -73,6 +121,7 @@ export const handler: Handlers['AccessRequestAPI'] = async (
                 requestId,
                 status: 'pending_risk',
                 message: 'Access request submitted for risk analysis',
+                requesterToken: token,
             },
         }
     } catch (error) {
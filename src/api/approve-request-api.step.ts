@@ -1,6 +1,8 @@
 import { ApiRouteConfig, Handlers } from 'motia'
 import { z } from 'zod'
-import { AccessState } from '../services/glasskiss-types'
+import { ApproverAuth } from '../services/api-auth'
+import { ApprovalPolicies } from '../services/approval-policy'
+import { ApprovalRepository } from '../services/approval-repository'
 
 const responseSchema = z.object({
     requestId: z.string(),
@@ -15,12 +17,10 @@ export const config: ApiRouteConfig = {
     flows: ['glasskiss'],
     method: 'POST',
     path: '/approve/:requestId',
-    bodySchema: z.object({
-        approver: z.string(),
-    }),
     responseSchema: {
         200: responseSchema,
         404: z.object({ error: z.string() }),
+        409: z.object({ error: z.string() }),
     },
     emits: ['provision-credentials'],
     virtualSubscribes: ['request-approval'],
@@ -31,57 +31,49 @@ export const handler: Handlers['ApproveRequestAPI'] = async (
     { logger, state, streams, emit }
 ) => {
     const { requestId } = req.pathParams
-    const { approver } = req.body
 
-    logger.info('Processing approval', { requestId, approver })
-
-    // Get request state
-    const requestState = await state.get<AccessState>(
-        'access-requests',
-        requestId
-    )
-    if (!requestState) {
-        return { status: 404, body: { error: 'Request not found' } }
+    // The approver is whoever the token belongs to, never a name from the body
+    const auth = ApproverAuth.verify(req.headers)
+    if ('denied' in auth) {
+        logger.warn('Approval denied', { requestId, status: auth.denied.status })
+        return auth.denied as any
     }
+    const { approver } = auth
 
-    // Find approval in stream
-    const approvals = await streams.approvalRequest.getGroup('approvals')
-    const approval = approvals.find((a) => a.requestId === requestId)
+    logger.info('Processing approval', { requestId, approver })
 
-    if (!approval) {
-        return { status: 404, body: { error: 'Approval request not found' } }
-    }
+    const decision = await ApprovalRepository.approve({ state, streams }, requestId, approver)
+    const { approval, requestState } = decision
 
-    // Check if approver is authorized
-    if (!approval.approvers.includes(approver)) {
-        return {
-            status: 403,
-            body: { error: 'Approver not authorized' },
-        } as any
+    switch (decision.outcome) {
+        case 'request_not_found':
+            return { status: 404, body: { error: 'Request not found' } }
+        case 'approval_not_found':
+            return { status: 404, body: { error: 'Approval request not found' } }
+        case 'not_pending':
+            // Only a request waiting for approval can be approved
+            return { status: 409, body: { error: `Request is ${requestState?.status}, not pending approval` } }
+        case 'not_authorized':
+            return {
+                status: 403,
+                body: { error: 'Approver not authorized' },
+            } as any
+        case 'self_approval':
+            return {
+                status: 403,
+                body: { error: 'Requesters cannot approve their own request' },
+            } as any
+        case 'forbidden_pairing':
+            return {
+                status: 403,
+                body: { error: `${approver} may not approve requests from ${requestState?.requester}` },
+            } as any
+        case 'already_approved':
+            return { status: 409, body: { error: `${approver} has already approved this request` } }
     }
 
-    // Update approval
-    const currentApprovals = approval.currentApprovals + 1
-    await streams.approvalRequest.set('approvals', approval.id, {
-        ...approval,
-        currentApprovals,
-        status: currentApprovals >= approval.requiredApprovals ? 'approved' : 'pending',
-    })
-
-    // Update state
-    const updatedApprovers = [...requestState.approvers, approver]
-    await state.set('access-requests', requestId, {
-        ...requestState,
-        approvers: updatedApprovers,
-        status: currentApprovals >= approval.requiredApprovals ? 'approved' : 'pending_approval',
-        approvedAt:
-            currentApprovals >= approval.requiredApprovals
-                ? new Date().toISOString()
-                : undefined,
-    })
-
     // If all approvals received, provision credentials
-    if (currentApprovals >= approval.requiredApprovals) {
+    if (decision.outcome === 'approved' && requestState) {
         logger.info('All approvals received, provisioning credentials', {
             requestId,
         })
@@ -113,7 +105,9 @@ export const handler: Handlers['ApproveRequestAPI'] = async (
         body: {
             requestId,
             status: 'pending_approval',
-            message: `Approval recorded (${currentApprovals}/${approval.requiredApprovals})`,
+            message: approval?.policy
+                ? `Approval recorded (${approval.currentApprovals} so far, policy: ${ApprovalPolicies.describe(approval.policy.rule)})`
+                : `Approval recorded (${approval?.currentApprovals}/${approval?.requiredApprovals})`,
         },
     }
 }
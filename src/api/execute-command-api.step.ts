@@ -0,0 +1,202 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { CommandEnforcer } from '../services/command-enforcer'
+import { DatabaseService } from '../services/database-service'
+import { Credentials } from '../services/glasskiss-types'
+import { QueryExecutor } from '../services/query-executor'
+import { ResourceRegistry } from '../services/resource-registry'
+
+const bodySchema = z.object({
+    command: z.string(),
+})
+
+// Batches are not atomic: each write commits on its own, so a failure
+// leaves the statements before it committed and the ones after it not run
+const statementResultSchema = z.object({
+    statement: z.string(),
+    queryType: z.string(),
+    status: z.enum(['committed', 'completed', 'failed', 'not_run']),
+    success: z.boolean(),
+    committed: z.boolean(),
+    rowCount: z.number(),
+    rows: z.array(z.record(z.string(), z.any())),
+    durationMs: z.number(),
+    error: z.string().optional(),
+})
+
+const responseSchema = z.object({
+    executed: z.boolean(),
+    results: z.array(statementResultSchema),
+    totalDurationMs: z.number(),
+    scopeInfo: z.string().optional(),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'ExecuteCommandAPI',
+    description: 'Enforces and executes SQL commands with the session credentials',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/session/:sessionId/execute',
+    bodySchema,
+    responseSchema: {
+        200: responseSchema,
+        404: z.object({ error: z.string() }),
+    },
+    emits: ['detect-anomaly'],
+}
+
+export const handler: Handlers['ExecuteCommandAPI'] = async (
+    req,
+    { logger, streams, emit, state }
+) => {
+    const { sessionId } = req.pathParams
+    const { command } = req.body
+
+    // Find the request associated with this session
+    const allCredentials = await state.getGroup<Credentials>('credentials')
+    const credential = allCredentials.find((c) => c.sessionId === sessionId)
+
+    if (!credential) {
+        return { status: 404, body: { error: 'Session not found' } }
+    }
+
+    const requestId = credential.requestId
+    const accessScope = credential.accessScope
+
+    if (new Date(credential.expiresAt) <= new Date()) {
+        return {
+            status: 403,
+            body: { error: 'Session expired' },
+        } as any
+    }
+
+    // ========================================
+    // SCOPE & BLAST RADIUS ENFORCEMENT
+    // ========================================
+
+    const enforcement = await CommandEnforcer.enforce(command, credential, { streams, logger })
+
+    if (!enforcement.allowed) {
+        return {
+            status: 403,
+            body: {
+                executed: false,
+                blocked: true,
+                blockReason: enforcement.blockReason,
+                scopeInfo: accessScope?.scopeDescription,
+                statements: enforcement.decisions,
+            },
+        } as any
+    }
+
+    // ========================================
+    // COMMAND ALLOWED - EXECUTE IN ORDER
+    // ========================================
+
+    const startedAt = Date.now()
+    const results: z.infer<typeof statementResultSchema>[] = []
+    let limitExceeded = false
+
+    for (const [index, statement] of enforcement.statements.entries()) {
+        const result = await QueryExecutor.execute(credential, statement, streams)
+        limitExceeded = result.limitExceeded
+
+        // Same session log and anomaly analysis as the logging endpoint
+        const logId = await CommandEnforcer.recordSessionLog(
+            credential,
+            statement,
+            { streams },
+            result.limitExceeded ? result.error : undefined
+        )
+
+        try {
+            await DatabaseService.logCommand(
+                requestId,
+                sessionId,
+                statement.sql,
+                result.limitExceeded,
+                result.error,
+                ResourceRegistry.get(credential.resource)
+            )
+        } catch (auditError) {
+            logger.warn('Failed to write command audit log', { requestId, error: auditError })
+        }
+
+        await emit({
+            topic: 'detect-anomaly',
+            data: {
+                requestId,
+                sessionId,
+                command: statement.sql,
+                logId,
+            },
+        })
+
+        results.push({
+            statement: statement.sql,
+            queryType: statement.kind,
+            status: !result.success ? 'failed' : result.committed ? 'committed' : 'completed',
+            success: result.success,
+            committed: result.committed,
+            rowCount: result.rowCount,
+            rows: result.rows,
+            durationMs: result.durationMs,
+            error: result.error,
+        })
+
+        // Stop at the first failure; earlier statements keep their own commits
+        if (!result.success) {
+            logger.warn('Statement execution failed', {
+                requestId,
+                sessionId,
+                queryType: statement.kind,
+                limitExceeded: result.limitExceeded,
+                error: result.error,
+                committedBefore: results.filter((r) => r.status === 'committed').length,
+            })
+
+            for (const skipped of enforcement.statements.slice(index + 1)) {
+                results.push({
+                    statement: skipped.sql,
+                    queryType: skipped.kind,
+                    status: 'not_run',
+                    success: false,
+                    committed: false,
+                    rowCount: 0,
+                    rows: [],
+                    durationMs: 0,
+                })
+            }
+            break
+        }
+    }
+
+    const executed = results.every((r) => r.success)
+    const totalDurationMs = Date.now() - startedAt
+
+    logger.info('Command executed', {
+        requestId,
+        sessionId,
+        executed,
+        statements: results.length,
+        totalDurationMs,
+    })
+
+    const body = {
+        executed,
+        results,
+        totalDurationMs,
+        scopeInfo: accessScope?.scopeDescription,
+    }
+
+    if (executed) {
+        return { status: 200, body }
+    }
+
+    // Rolled back for exceeding the row budget is a policy block, anything else a bad query
+    return {
+        status: limitExceeded ? 403 : 400,
+        body,
+    } as any
+}
@@ -0,0 +1,146 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { randomBytes } from 'crypto'
+import { RequesterAuth } from '../services/api-auth'
+import { AccessState, Credentials, SessionExtension } from '../services/glasskiss-types'
+import { RequestStateMachine } from '../services/request-state-machine'
+import { ResourceRegistry } from '../services/resource-registry'
+import { RiskAnalyzer } from '../services/risk-analyzer'
+import { SessionExtensions } from '../services/session-extensions'
+import { SlackService } from '../services/slack-service'
+
+const bodySchema = z.object({
+    minutes: z.number().min(1).max(60, 'An extension can add at most 60 minutes'),
+    justification: z.string().min(10, 'Justification must be at least 10 characters'),
+})
+
+const responseSchema = z.object({
+    requestId: z.string(),
+    extensionId: z.string(),
+    status: z.string(),
+    riskScore: z.number(),
+    requiredApprovals: z.number(),
+    approvers: z.array(z.string()),
+    message: z.string(),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'ExtendAccessAPI',
+    description: 'Requester asks for more time on an active session; needs re-approval',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/access-request/:requestId/extend',
+    bodySchema,
+    responseSchema: {
+        202: responseSchema,
+        404: z.object({ error: z.string() }),
+        409: z.object({ error: z.string() }),
+    },
+    emits: [],
+}
+
+export const handler: Handlers['ExtendAccessAPI'] = async (req, { logger, state }) => {
+    const { requestId } = req.pathParams
+    const { minutes, justification } = req.body
+
+    const requestState = await state.get<AccessState>('access-requests', requestId)
+    if (!requestState) {
+        return { status: 404, body: { error: 'Request not found' } }
+    }
+
+    const denied = RequesterAuth.verify(req.headers, requestState)
+    if (denied) {
+        return denied as any
+    }
+
+    const credential = await state.get<Credentials>('credentials', requestId)
+    if (requestState.status !== 'active' || !credential || new Date(credential.expiresAt) <= new Date()) {
+        return { status: 409, body: { error: 'Only an active session can be extended' } }
+    }
+
+    if (SessionExtensions.pending(requestState)) {
+        return { status: 409, body: { error: 'An extension is already waiting for approval' } }
+    }
+
+    // The extension is a risk factor on top of the justification itself
+    const applied = (requestState.extensions ?? []).filter((e) => e.status === 'applied')
+    const grantedMinutes = requestState.duration + applied.reduce((total, e) => total + e.minutes, 0)
+    const risk = RiskAnalyzer.analyzeExtension(
+        justification,
+        requestState.resource,
+        requestState.accessLevel,
+        minutes,
+        grantedMinutes,
+        applied.length
+    )
+
+    // Whoever approved the grant approves the extension, topped up from the
+    // resource's routing when the new risk level needs more of them
+    const approvers = requestState.approvers.length >= risk.requiredApprovals
+        ? requestState.approvers
+        : [...new Set([
+            ...requestState.approvers,
+            ...ResourceRegistry.approversFor(requestState.resource, risk.riskScore),
+        ])]
+
+    const extension: SessionExtension = {
+        id: randomBytes(8).toString('hex'),
+        minutes,
+        justification,
+        riskScore: risk.riskScore,
+        riskFactors: risk.factors,
+        requiredApprovals: Math.min(risk.requiredApprovals, approvers.length),
+        approvers,
+        approvals: [],
+        status: 'pending',
+        requestedAt: new Date().toISOString(),
+    }
+
+    // Re-checked under the request's lock: another extension may have been filed meanwhile
+    const filed = await RequestStateMachine.update(state, requestId, (current) =>
+        current.status === 'active' && !SessionExtensions.pending(current)
+            ? { ...current, extensions: [...(current.extensions ?? []), extension] }
+            : null
+    )
+    if (!filed) {
+        return { status: 409, body: { error: 'Session ended or another extension was filed meanwhile' } }
+    }
+
+    logger.info('Session extension requested', {
+        requestId,
+        extensionId: extension.id,
+        minutes,
+        riskScore: risk.riskScore,
+        factors: risk.factors,
+    })
+
+    try {
+        await SlackService.sendExtensionRequest({
+            requestId,
+            requester: requestState.requester,
+            resource: requestState.resource,
+            minutes,
+            justification,
+            currentExpiresAt: credential.expiresAt,
+            riskScore: risk.riskScore,
+            requiredApprovals: extension.requiredApprovals,
+            approvers,
+        })
+    } catch (error) {
+        logger.warn('Failed to send Slack extension request', { requestId, error })
+    }
+
+    return {
+        status: 202,
+        body: {
+            requestId,
+            extensionId: extension.id,
+            status: 'pending',
+            riskScore: risk.riskScore,
+            requiredApprovals: extension.requiredApprovals,
+            approvers,
+            message: `Extension of ${minutes} minutes sent for approval`,
+        },
+    }
+}
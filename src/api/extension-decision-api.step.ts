@@ -0,0 +1,88 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { ApproverAuth } from '../services/api-auth'
+import { SessionExtensions } from '../services/session-extensions'
+
+const responseSchema = z.object({
+    requestId: z.string(),
+    extensionId: z.string(),
+    status: z.string(),
+    message: z.string(),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'ExtensionDecisionAPI',
+    description: 'Allows the original approvers to approve or deny a session extension',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/access-request/:requestId/extend/decision',
+    bodySchema: z.object({
+        decision: z.enum(['approve', 'reject']),
+    }),
+    responseSchema: {
+        200: responseSchema,
+        404: z.object({ error: z.string() }),
+    },
+    emits: ['extend-access'],
+}
+
+export const handler: Handlers['ExtensionDecisionAPI'] = async (
+    req,
+    { logger, state, emit }
+) => {
+    const { requestId } = req.pathParams
+    const { decision } = req.body
+
+    // The approver is whoever the token belongs to, never a name from the body
+    const auth = ApproverAuth.verify(req.headers)
+    if ('denied' in auth) {
+        logger.warn('Extension decision denied', { requestId, status: auth.denied.status })
+        return auth.denied as any
+    }
+    const { approver } = auth
+
+    logger.info('Processing extension decision', { requestId, approver, decision })
+
+    const vote = await SessionExtensions.vote(requestId, approver, decision === 'approve', { state })
+
+    switch (vote.outcome) {
+        case 'request_not_found':
+            return { status: 404, body: { error: 'Request not found' } }
+        case 'no_pending_extension':
+            return { status: 409, body: { error: 'No extension is waiting for approval' } } as any
+        case 'not_authorized':
+            return { status: 403, body: { error: 'Approver not authorized' } } as any
+        case 'self_approval':
+            return { status: 403, body: { error: 'Requesters cannot approve their own extension' } } as any
+        case 'already_voted':
+            return { status: 409, body: { error: 'Approver already approved this extension' } } as any
+    }
+
+    const extension = vote.extension!
+
+    if (vote.outcome === 'approved') {
+        logger.info('Extension approved, applying', { requestId, extensionId: extension.id })
+
+        await emit({
+            topic: 'extend-access',
+            data: { requestId, extensionId: extension.id },
+        })
+    }
+
+    const message = {
+        recorded: `Approval recorded (${extension.approvals.length}/${extension.requiredApprovals})`,
+        approved: `Extension of ${extension.minutes} minutes approved, applying`,
+        rejected: `Extension denied by ${approver}`,
+    }[vote.outcome]
+
+    return {
+        status: 200,
+        body: {
+            requestId,
+            extensionId: extension.id,
+            status: extension.status,
+            message,
+        },
+    }
+}
@@ -0,0 +1,72 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { AdminAuth, RequesterAuth } from '../services/api-auth'
+import { AccessState, approvalSlaEventSchema, requestStatusSchema, statusChangeSchema } from '../services/glasskiss-types'
+
+const responseSchema = z.object({
+    requestId: z.string(),
+    requester: z.string(),
+    resource: z.string(),
+    accessLevel: z.string(),
+    status: requestStatusSchema,
+    riskScore: z.number(),
+    requiredApprovals: z.number(),
+    approvers: z.array(z.string()),
+    createdAt: z.string(),
+    approvedAt: z.string().optional(),
+    revokedAt: z.string().optional(),
+    revokeReason: z.string().optional(),
+    approvalSlaEvents: z.array(approvalSlaEventSchema),
+    history: z.array(statusChangeSchema),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'GetAccessRequestAPI',
+    description: 'Returns a request\'s current status, every transition it went through and its approval reminders and escalations',
+    flows: ['glasskiss'],
+    method: 'GET',
+    path: '/access-request/:requestId',
+    responseSchema: {
+        200: responseSchema,
+        404: z.object({ error: z.string() }),
+    },
+    emits: [],
+}
+
+export const handler: Handlers['GetAccessRequestAPI'] = async (req, { state }) => {
+    const { requestId } = req.pathParams
+
+    const requestState = await state.get<AccessState>('access-requests', requestId)
+    if (!requestState) {
+        return { status: 404, body: { error: 'Request not found' } }
+    }
+
+    // The requester, or an admin
+    const denied = req.headers['x-glasskiss-admin-token'] !== undefined
+        ? AdminAuth.verify(req.headers)
+        : RequesterAuth.verify(req.headers, requestState)
+    if (denied) {
+        return denied as any
+    }
+
+    return {
+        status: 200,
+        body: {
+            requestId,
+            requester: requestState.requester,
+            resource: requestState.resource,
+            accessLevel: requestState.accessLevel,
+            status: requestState.status,
+            riskScore: requestState.riskScore,
+            requiredApprovals: requestState.requiredApprovals,
+            approvers: requestState.approvers,
+            createdAt: requestState.createdAt,
+            approvedAt: requestState.approvedAt,
+            revokedAt: requestState.revokedAt,
+            revokeReason: requestState.revokeReason,
+            approvalSlaEvents: requestState.approvalSlaEvents ?? [],
+            history: requestState.statusHistory ?? [],
+        },
+    }
+}
@@ -0,0 +1,134 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { RequesterAuth } from '../services/api-auth'
+import { CredentialProviders } from '../services/credential-provider'
+import { CredentialVault } from '../services/credential-vault'
+import { AccessState, Credentials } from '../services/glasskiss-types'
+import { StateLock } from '../services/state-lock'
+
+const responseSchema = z.object({
+    requestId: z.string(),
+    resource: z.string(),
+    username: z.string(),
+    password: z.string(),
+    sessionId: z.string(),
+    expiresAt: z.string(),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'GetCredentialsAPI',
+    description: 'Returns the temporary password to the requester, exactly once',
+    flows: ['glasskiss'],
+    method: 'GET',
+    path: '/access-request/:requestId/credentials',
+    responseSchema: {
+        200: responseSchema,
+        404: z.object({ error: z.string() }),
+        410: z.object({ error: z.string() }),
+    },
+    emits: [],
+}
+
+export const handler: Handlers['GetCredentialsAPI'] = async (req, { logger, state }) => {
+    const { requestId } = req.pathParams
+
+    const requestState = await state.get<AccessState>('access-requests', requestId)
+    if (!requestState) {
+        return { status: 404, body: { error: 'Request not found' } }
+    }
+
+    const denied = RequesterAuth.verify(req.headers, requestState)
+    if (denied) {
+        logger.warn('Credential retrieval denied', { requestId, status: denied.status })
+        return denied as any
+    }
+
+    // Check and claim the single retrieval under the credential's lock, so two
+    // requests arriving together cannot both see it unclaimed
+    const retrievedAt = new Date().toISOString()
+    const claim = await StateLock.withLock(state, 'credentials', requestId, async () => {
+        const current = await state.get<Credentials>('credentials', requestId)
+        if (!current) return { outcome: 'not_found' as const }
+        if (new Date(current.expiresAt) <= new Date()) return { outcome: 'expired' as const }
+        if (current.retrievedAt) return { outcome: 'already_retrieved' as const, credential: current }
+
+        // Decrypt before claiming: an envelope the configured key cannot open
+        // must not use up the one retrieval
+        let password: string
+        try {
+            password = CredentialVault.open(current.passwordEnvelope, requestId)
+        } catch (error) {
+            return { outcome: 'unreadable' as const, error }
+        }
+
+        const claimed = { ...current, retrievedAt }
+        await state.set('credentials', requestId, claimed)
+        return { outcome: 'claimed' as const, credential: claimed, password }
+    })
+
+    if (claim.outcome === 'not_found') {
+        return { status: 404, body: { error: 'No active credentials for this request' } }
+    }
+
+    if (claim.outcome === 'expired') {
+        return { status: 410, body: { error: 'Credentials expired' } }
+    }
+
+    if (claim.outcome === 'already_retrieved') {
+        logger.warn('Repeated credential retrieval refused', {
+            requestId,
+            retrievedAt: claim.credential.retrievedAt,
+        })
+        return { status: 410, body: { error: 'Credentials were already retrieved' } }
+    }
+
+    if (claim.outcome === 'unreadable') {
+        logger.error('Stored password could not be decrypted; credentials left unclaimed', {
+            requestId,
+            error: claim.error,
+        })
+        return {
+            status: 500,
+            body: { error: 'Stored credentials could not be decrypted (check GLASSKISS_CREDENTIAL_KEY); they were not consumed' },
+        } as any
+    }
+
+    const { credential, password } = claim
+
+    // No audit entry, no password. The claim stands: putting the credential
+    // back could resurrect one revoked in the meantime
+    try {
+        await CredentialProviders.forResource(credential.resource).recordAudit(requestId, 'CREDENTIALS_RETRIEVED', {
+            requester: requestState.requester,
+            username: credential.username,
+            sessionId: credential.sessionId,
+            retrievedAt,
+        })
+    } catch (error) {
+        logger.error('Failed to audit credential retrieval; credentials consumed without being returned', { requestId, error })
+        return {
+            status: 503,
+            body: { error: 'Credential retrieval could not be audited; the credentials are consumed, request new access' },
+        } as any
+    }
+
+    logger.info('Credentials retrieved by requester', {
+        requestId,
+        requester: requestState.requester,
+        username: credential.username,
+    })
+
+    return {
+        status: 200,
+        headers: { 'Cache-Control': 'no-store' },
+        body: {
+            requestId,
+            resource: credential.resource,
+            username: credential.username,
+            password,
+            sessionId: credential.sessionId,
+            expiresAt: credential.expiresAt,
+        },
+    }
+}
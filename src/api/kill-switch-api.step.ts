@@ -0,0 +1,69 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { AdminAuth } from '../services/api-auth'
+import { freezeStateSchema } from '../services/glasskiss-types'
+import { KillSwitch } from '../services/kill-switch'
+import { SlackService } from '../services/slack-service'
+
+const bodySchema = z.object({
+    action: z.enum(['freeze', 'unfreeze']),
+    reason: z.string().min(10, 'Reason must be at least 10 characters'),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'KillSwitchAPI',
+    description: 'Admin: freeze all break-glass access, or lift the freeze',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/admin/kill-switch',
+    bodySchema,
+    responseSchema: {
+        200: freezeStateSchema,
+        202: freezeStateSchema,
+        403: z.object({ error: z.string() }),
+        409: z.object({ error: z.string() }),
+    },
+    emits: ['freeze-sessions'],
+}
+
+export const handler: Handlers['KillSwitchAPI'] = async (req, { logger, state, emit }) => {
+    const denied = AdminAuth.verify(req.headers)
+    if (denied) {
+        return denied as any
+    }
+
+    // The admin token is shared, so the audit log can only say it was an admin;
+    // the Slack command records the Slack user instead
+    const { action, reason } = req.body
+    const actor = 'admin'
+
+    if (action === 'unfreeze') {
+        const lifted = await KillSwitch.lift(state, actor, reason)
+        if (!lifted) {
+            return { status: 409, body: { error: 'No freeze is in effect' } }
+        }
+
+        logger.warn('Emergency freeze lifted', { freezeId: lifted.id, actor, reason })
+
+        try {
+            await SlackService.sendUnfreezeNotice(lifted)
+        } catch (error) {
+            logger.warn('Failed to send Slack unfreeze notice', { freezeId: lifted.id, error })
+        }
+
+        return { status: 200, body: lifted }
+    }
+
+    const { freeze, alreadyFrozen } = await KillSwitch.freeze(state, actor, reason)
+
+    logger.warn('EMERGENCY FREEZE requested', { freezeId: freeze.id, actor, reason, alreadyFrozen })
+
+    // Sweep again even when already frozen, in case a session slipped through
+    await emit({
+        topic: 'freeze-sessions',
+        data: { freezeId: freeze.id },
+    })
+
+    return { status: 202, body: freeze }
+}
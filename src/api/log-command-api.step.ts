@@ -1,20 +1,29 @@
 import { ApiRouteConfig, Handlers } from 'motia'
 import { z } from 'zod'
-import { randomBytes } from 'crypto'
-import { BlastRadiusController } from '../services/blast-radius-controller'
-import { AccessScope, Credentials } from '../services/glasskiss-types'
-import { SlackService } from '../services/slack-service'
+import { CommandEnforcer } from '../services/command-enforcer'
+import { Credentials } from '../services/glasskiss-types'
 
 const bodySchema = z.object({
     command: z.string(),
 })
 
+const statementDecisionSchema = z.object({
+    statement: z.string(),
+    queryType: z.string(),
+    decision: z.enum(['allowed', 'blocked']),
+    reason: z.string().optional(),
+    violationType: z.enum(['scope', 'blast_radius', 'operation', 'table', 'row_limit']).optional(),
+    severity: z.enum(['low', 'medium', 'high', 'critical']),
+    estimatedRows: z.number().optional(),
+})
+
 const responseSchema = z.object({
     logged: z.boolean(),
     flagged: z.boolean(),
     blocked: z.boolean().optional(),
     blockReason: z.string().optional(),
     scopeInfo: z.string().optional(),
+    statements: z.array(statementDecisionSchema).optional(),
 })
 
 export const config: ApiRouteConfig = {
@@ -50,65 +59,15 @@ export const handler: Handlers['LogCommandAPI'] = async (
     }
 
     const requestId = credential.requestId
-    const accessScope = credential.accessScope as AccessScope | undefined
+    const accessScope = credential.accessScope
 
     // ========================================
     // SCOPE & BLAST RADIUS ENFORCEMENT
     // ========================================
 
-    // Create blast radius controller with scope config
-    const blastRadiusController = accessScope
-        ? BlastRadiusController.fromScope(accessScope)
-        : new BlastRadiusController()
-
-    // Check command against blast radius limits
-    const blastCheck = blastRadiusController.checkCommand(command, accessScope)
-
-    if (!blastCheck.allowed) {
-        logger.warn('Command BLOCKED by blast radius control', {
-            requestId,
-            sessionId,
-            command: command.substring(0, 100),
-            reason: blastCheck.reason,
-            severity: blastCheck.severity,
-            violationType: blastCheck.violationType,
-        })
-
-        // Log the blocked command to enforcement stream
-        const enforcementId = randomBytes(8).toString('hex')
-        await streams.scopeEnforcement.set(sessionId, enforcementId, {
-            id: enforcementId,
-            sessionId,
-            requestId,
-            timestamp: new Date().toISOString(),
-            command,
-            decision: 'blocked',
-            reason: blastCheck.reason,
-            violationType: blastCheck.violationType === 'scope_violation' ? 'scope'
-                : blastCheck.violationType === 'row_limit' ? 'row_limit'
-                    : blastCheck.violationType === 'no_where' ? 'blast_radius'
-                        : blastCheck.violationType === 'table_blocked' ? 'table'
-                            : blastCheck.violationType === 'operation_blocked' ? 'operation'
-                                : 'blast_radius',
-            severity: blastCheck.severity,
-        })
-
-        // 🚨 SEND SLACK ALERT FOR BLOCKED QUERY
-        try {
-            await SlackService.sendSecurityAlert({
-                requestId,
-                sessionId,
-                alertType: 'blocked',
-                severity: blastCheck.severity === 'critical' ? 'critical'
-                    : blastCheck.severity === 'high' ? 'high'
-                        : 'medium',
-                details: `**Blocked Query:**\n\`\`\`${command.substring(0, 200)}\`\`\`\n**Reason:** ${blastCheck.reason}`,
-            })
-            logger.info('Slack alert sent for blocked query', { requestId, sessionId })
-        } catch (slackError) {
-            logger.warn('Failed to send Slack alert', { error: slackError })
-        }
+    const enforcement = await CommandEnforcer.enforce(command, credential, { streams, logger })
 
+    if (!enforcement.allowed) {
         // Return 403 Forbidden for blocked commands
         return {
             status: 403,
@@ -116,8 +75,9 @@ export const handler: Handlers['LogCommandAPI'] = async (
                 logged: false,
                 flagged: true,
                 blocked: true,
-                blockReason: blastCheck.reason,
+                blockReason: enforcement.blockReason,
                 scopeInfo: accessScope?.scopeDescription,
+                statements: enforcement.decisions,
             },
         } as any
     }
@@ -126,52 +86,31 @@ export const handler: Handlers['LogCommandAPI'] = async (
     // COMMAND ALLOWED - PROCEED TO LOGGING
     // ========================================
 
-    // Determine query type
-    const queryType = determineQueryType(command)
+    for (const statement of enforcement.statements) {
+        // Create log entry in session log stream
+        const logId = await CommandEnforcer.recordSessionLog(credential, statement, { streams })
 
-    // Create log entry in session log stream
-    const logId = randomBytes(8).toString('hex')
-    await streams.sessionLog.set(sessionId, logId, {
-        id: logId,
-        requestId,
-        sessionId,
-        timestamp: new Date().toISOString(),
-        command,
-        queryType,
-        flagged: false,
-    })
-
-    // Log the allowed command to enforcement stream
-    const enforcementId = randomBytes(8).toString('hex')
-    await streams.scopeEnforcement.set(sessionId, enforcementId, {
-        id: enforcementId,
-        sessionId,
-        requestId,
-        timestamp: new Date().toISOString(),
-        command,
-        decision: 'allowed',
-        severity: 'low',
-    })
+        // Emit to anomaly detector for additional analysis
+        await emit({
+            topic: 'detect-anomaly',
+            data: {
+                requestId,
+                sessionId,
+                command: statement.sql,
+                logId,
+            },
+        })
+    }
 
     logger.info('Command ALLOWED and logged', {
         requestId,
         sessionId,
-        queryType,
+        statements: enforcement.statements.length,
+        queryTypes: enforcement.statements.map((s) => s.kind),
         command: command.substring(0, 100),
         scopeApplied: !!accessScope,
     })
 
-    // Emit to anomaly detector for additional analysis
-    await emit({
-        topic: 'detect-anomaly',
-        data: {
-            requestId,
-            sessionId,
-            command,
-            logId,
-        },
-    })
-
     return {
         status: 200,
         body: {
@@ -179,21 +118,7 @@ export const handler: Handlers['LogCommandAPI'] = async (
             flagged: false,
             blocked: false,
             scopeInfo: accessScope?.scopeDescription,
+            statements: enforcement.decisions,
         },
     }
 }
-
-function determineQueryType(command: string): string {
-    const upperCmd = command.trim().toUpperCase()
-
-    if (upperCmd.startsWith('SELECT')) return 'SELECT'
-    if (upperCmd.startsWith('INSERT')) return 'INSERT'
-    if (upperCmd.startsWith('UPDATE')) return 'UPDATE'
-    if (upperCmd.startsWith('DELETE')) return 'DELETE'
-    if (upperCmd.startsWith('DROP')) return 'DROP'
-    if (upperCmd.startsWith('CREATE')) return 'CREATE'
-    if (upperCmd.startsWith('ALTER')) return 'ALTER'
-    if (upperCmd.startsWith('TRUNCATE')) return 'TRUNCATE'
-
-    return 'OTHER'
-}
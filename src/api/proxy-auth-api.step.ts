@@ -0,0 +1,90 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { timingSafeEqual } from 'crypto'
+import { CredentialVault } from '../services/credential-vault'
+import { Credentials } from '../services/glasskiss-types'
+
+const bodySchema = z.object({
+    username: z.string(),
+    password: z.string(),
+})
+
+const responseSchema = z.object({
+    sessionId: z.string(),
+    requestId: z.string(),
+    expiresAt: z.string(),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'ProxyAuthAPI',
+    description: 'Verifies temporary credentials presented to the SQL proxy',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/proxy/authenticate',
+    bodySchema,
+    responseSchema: {
+        200: responseSchema,
+        401: z.object({ error: z.string() }),
+    },
+    emits: [],
+}
+
+export const handler: Handlers['ProxyAuthAPI'] = async (req, { logger, state }) => {
+    const { username, password } = req.body
+
+    // Only the proxy may ask; this endpoint answers "is this password right"
+    const expectedSecret = process.env.GLASSKISS_PROXY_SECRET
+    if (!expectedSecret) {
+        logger.error('Proxy authentication requested but GLASSKISS_PROXY_SECRET is not set')
+        return {
+            status: 503,
+            body: { error: 'Proxy authentication not configured' },
+        } as any
+    }
+
+    const presentedSecret = req.headers['x-glasskiss-proxy-secret']
+    if (typeof presentedSecret !== 'string' || !safeEqual(presentedSecret, expectedSecret)) {
+        return {
+            status: 403,
+            body: { error: 'Invalid proxy secret' },
+        } as any
+    }
+
+    const allCredentials = await state.getGroup<Credentials>('credentials')
+    const credential = allCredentials.find((c) => c.username === username)
+
+    if (!credential || !safeEqual(password, CredentialVault.open(credential.passwordEnvelope, credential.requestId))) {
+        logger.warn('Proxy authentication failed', { username })
+        return { status: 401, body: { error: 'Invalid credentials' } }
+    }
+
+    if (new Date(credential.expiresAt) <= new Date()) {
+        logger.warn('Proxy authentication with expired credentials', {
+            username,
+            requestId: credential.requestId,
+        })
+        return { status: 401, body: { error: 'Credentials expired' } }
+    }
+
+    logger.info('Proxy session authenticated', {
+        username,
+        requestId: credential.requestId,
+        sessionId: credential.sessionId,
+    })
+
+    return {
+        status: 200,
+        body: {
+            sessionId: credential.sessionId,
+            requestId: credential.requestId,
+            expiresAt: credential.expiresAt,
+        },
+    }
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
@@ -0,0 +1,62 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { AdminAuth } from '../services/api-auth'
+import { SessionReconciler } from '../services/session-reconciler'
+
+const responseSchema = z.object({
+    id: z.string(),
+    trigger: z.enum(['startup', 'manual']),
+    startedAt: z.string(),
+    completedAt: z.string(),
+    providers: z.array(z.string()),
+    rolesChecked: z.number(),
+    stateEntriesChecked: z.number(),
+    orphanedRoles: z.array(z.object({
+        username: z.string(),
+        provider: z.string(),
+        requestId: z.string().optional(),
+        revoked: z.boolean(),
+    })),
+    missingRoles: z.array(z.object({
+        requestId: z.string(),
+        username: z.string(),
+        resource: z.string(),
+    })),
+    closedTracking: z.array(z.string()),
+    inFlight: z.array(z.string()),
+    errors: z.array(z.string()),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'ReconcileSessionsAPI',
+    description: 'Admin: reconcile credentials state against the database on demand',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/admin/reconcile',
+    responseSchema: {
+        200: responseSchema,
+        403: z.object({ error: z.string() }),
+    },
+    emits: ['generate-audit'],
+}
+
+export const handler: Handlers['ReconcileSessionsAPI'] = async (req, { logger, state, emit }) => {
+    const denied = AdminAuth.verify(req.headers)
+    if (denied) {
+        return denied as any
+    }
+
+    logger.info('Reconciliation requested by admin')
+
+    const report = await SessionReconciler.reconcile('manual', { state, logger })
+
+    for (const missing of report.missingRoles) {
+        await emit({
+            topic: 'generate-audit',
+            data: { requestId: missing.requestId },
+        })
+    }
+
+    return { status: 200, body: report }
+}
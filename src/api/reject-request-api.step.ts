@@ -1,6 +1,7 @@
 import { ApiRouteConfig, Handlers } from 'motia'
 import { z } from 'zod'
-import { AccessState } from '../services/glasskiss-types'
+import { ApproverAuth } from '../services/api-auth'
+import { ApprovalRepository } from '../services/approval-repository'
 
 const responseSchema = z.object({
     requestId: z.string(),
@@ -16,12 +17,12 @@ export const config: ApiRouteConfig = {
     method: 'POST',
     path: '/reject/:requestId',
     bodySchema: z.object({
-        approver: z.string(),
         reason: z.string().optional(),
     }),
     responseSchema: {
         200: responseSchema,
         404: z.object({ error: z.string() }),
+        409: z.object({ error: z.string() }),
     },
     emits: [],
     virtualSubscribes: ['request-approval'],
@@ -32,47 +33,34 @@ export const handler: Handlers['RejectRequestAPI'] = async (
     { logger, state, streams }
 ) => {
     const { requestId } = req.pathParams
-    const { approver, reason } = req.body
+    const { reason } = req.body
 
-    logger.info('Processing rejection', { requestId, approver })
-
-    // Get request state
-    const requestState = await state.get<AccessState>(
-        'access-requests',
-        requestId
-    )
-    if (!requestState) {
-        return { status: 404, body: { error: 'Request not found' } }
+    // The approver is whoever the token belongs to, never a name from the body
+    const auth = ApproverAuth.verify(req.headers)
+    if ('denied' in auth) {
+        logger.warn('Rejection denied', { requestId, status: auth.denied.status })
+        return auth.denied as any
     }
+    const { approver } = auth
 
-    // Find approval in stream
-    const approvals = await streams.approvalRequest.getGroup('approvals')
-    const approval = approvals.find((a) => a.requestId === requestId)
+    logger.info('Processing rejection', { requestId, approver })
 
-    if (!approval) {
-        return { status: 404, body: { error: 'Approval request not found' } }
-    }
+    const decision = await ApprovalRepository.reject({ state, streams }, requestId, approver, reason)
 
-    // Check if approver is authorized
-    if (!approval.approvers.includes(approver)) {
-        return {
-            status: 403,
-            body: { error: 'Approver not authorized' },
-        } as any
+    switch (decision.outcome) {
+        case 'request_not_found':
+            return { status: 404, body: { error: 'Request not found' } }
+        case 'approval_not_found':
+            return { status: 404, body: { error: 'Approval request not found' } }
+        case 'not_pending':
+            return { status: 409, body: { error: `Request is ${decision.requestState?.status} and can no longer be rejected` } }
+        case 'not_authorized':
+            return {
+                status: 403,
+                body: { error: 'Approver not authorized' },
+            } as any
     }
 
-    // Update approval stream
-    await streams.approvalRequest.set('approvals', approval.id, {
-        ...approval,
-        status: 'rejected',
-    })
-
-    // Update state
-    await state.set('access-requests', requestId, {
-        ...requestState,
-        status: 'rejected',
-    })
-
     logger.info('Request rejected', { requestId, approver, reason })
 
     return {
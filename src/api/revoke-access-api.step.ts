@@ -0,0 +1,118 @@
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { AdminAuth, RequesterAuth } from '../services/api-auth'
+import { ApprovalRepository } from '../services/approval-repository'
+import { AccessState } from '../services/glasskiss-types'
+import { RevocationSchedule } from '../services/revocation-schedule'
+
+const bodySchema = z.object({
+    reason: z.string().optional(),  // required when an admin revokes
+})
+
+const responseSchema = z.object({
+    requestId: z.string(),
+    status: z.string(),
+    reason: z.enum(['manual', 'forced']),
+    message: z.string(),
+})
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'RevokeAccessAPI',
+    description: 'Ends an active session early, or withdraws a pending request: the requester when done, or an admin with a reason',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/access-request/:requestId/revoke',
+    bodySchema,
+    responseSchema: {
+        200: responseSchema,
+        202: responseSchema,
+        400: z.object({ error: z.string() }),
+        404: z.object({ error: z.string() }),
+        409: z.object({ error: z.string() }),
+    },
+    emits: ['revoke-access', 'force-revoke'],
+}
+
+export const handler: Handlers['RevokeAccessAPI'] = async (req, { logger, state, streams, emit }) => {
+    const { requestId } = req.pathParams
+    const reason = req.body?.reason?.trim()
+
+    const requestState = await state.get<AccessState>('access-requests', requestId)
+    if (!requestState) {
+        return { status: 404, body: { error: 'Request not found' } }
+    }
+
+    // An admin token selects the forced path; anyone else must be the requester
+    const asAdmin = req.headers['x-glasskiss-admin-token'] !== undefined
+    const denied = asAdmin
+        ? AdminAuth.verify(req.headers)
+        : RequesterAuth.verify(req.headers, requestState)
+    if (denied) {
+        logger.warn('Revocation request denied', { requestId, asAdmin, status: denied.status })
+        return denied as any
+    }
+
+    if (asAdmin && (!reason || reason.length < 10)) {
+        return { status: 400, body: { error: 'Admin revocation requires a reason of at least 10 characters' } }
+    }
+
+    const revokedBy = asAdmin ? 'admin' : requestState.requester
+
+    // Not granted yet: withdraw the request, and its pending approval with it
+    if (requestState.status === 'pending_risk' || requestState.status === 'pending_approval') {
+        const result = await ApprovalRepository.cancel({ state, streams }, requestId, revokedBy, reason)
+        if (result.outcome !== 'cancelled') {
+            return { status: 409, body: { error: `Request is ${result.requestState?.status}, it can no longer be cancelled` } }
+        }
+
+        logger.info('Access request cancelled', { requestId, revokedBy, reason, approvalId: result.approval?.id })
+
+        return {
+            status: 200,
+            body: {
+                requestId,
+                status: 'cancelled',
+                reason: asAdmin ? 'forced' : 'manual',
+                message: 'Access request cancelled before it was granted',
+            },
+        }
+    }
+
+    // A revocation that failed earlier can be retried right away
+    if (requestState.status !== 'active' && requestState.status !== 'revocation_failed') {
+        return { status: 409, body: { error: `Request is ${requestState.status}, not active` } }
+    }
+
+    // Stop the expiry timer first so the sweeper cannot revoke it a second time
+    if (!await RevocationSchedule.cancel(state, requestId)) {
+        const deadline = await RevocationSchedule.get(state, requestId)
+        if (deadline) {
+            return { status: 409, body: { error: 'Revocation already in progress' } }
+        }
+    }
+
+    logger.info('Early revocation requested', { requestId, revokedBy, reason })
+
+    await emit(asAdmin
+        ? {
+            topic: 'force-revoke',
+            data: { requestId, reason: 'forced', details: reason, revokedBy },
+        }
+        : {
+            topic: 'revoke-access',
+            data: { requestId, reason: 'manual', details: reason, revokedBy },
+        })
+
+    return {
+        status: 202,
+        body: {
+            requestId,
+            status: 'revoking',
+            reason: asAdmin ? 'forced' : 'manual',
+            message: asAdmin
+                ? 'Access is being force-revoked'
+                : 'Access is being revoked; your session will end shortly',
+        },
+    }
+}
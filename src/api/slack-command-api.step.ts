@@ -0,0 +1,135 @@
+/**
+ * Slack Command API
+ * Handles the /glasskiss slash command: freeze, unfreeze and status of the
+ * global kill switch. Only requests signed by Slack are read, and only Slack
+ * users listed in GLASSKISS_SLACK_ADMINS may use it.
+ */
+
+import { ApiRouteConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { SlackAuth } from '../services/api-auth'
+import { KillSwitch } from '../services/kill-switch'
+import { SlackService } from '../services/slack-service'
+
+// Slack sends slash commands URL-encoded
+const bodySchema = z.object({
+    command: z.string().optional(),
+    text: z.string().optional(),
+    user_id: z.string().optional(),
+    user_name: z.string().optional(),
+})
+
+const USAGE = 'Usage: `/glasskiss freeze <reason>`, `/glasskiss unfreeze <reason>` or `/glasskiss status`'
+
+export const config: ApiRouteConfig = {
+    type: 'api',
+    name: 'SlackCommandAPI',
+    description: 'Handles the /glasskiss slash command for the emergency kill switch',
+    flows: ['glasskiss'],
+    method: 'POST',
+    path: '/slack/commands',
+    bodySchema,
+    emits: ['freeze-sessions'],
+}
+
+export const handler: Handlers['SlackCommandAPI'] = async (req, { logger, state, emit }) => {
+    // user_id means nothing unless Slack signed the body it came in
+    const denied = SlackAuth.verify(req.headers, req.rawBody)
+    if (denied) {
+        logger.warn('Unsigned Slack command refused', { status: denied.status, error: denied.body.error })
+        return denied as any
+    }
+
+    const userId = req.body.user_id ?? ''
+    const actor = req.body.user_name ? `${req.body.user_name} (${userId})` : userId
+    const [subcommand = '', ...rest] = (req.body.text ?? '').trim().split(/\s+/)
+    const reason = rest.join(' ')
+
+    const admins = (process.env.GLASSKISS_SLACK_ADMINS ?? '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean)
+
+    if (!userId || !admins.includes(userId)) {
+        logger.warn('Unauthorized Slack kill switch command', { userId, subcommand })
+        return {
+            status: 200,
+            body: {
+                response_type: 'ephemeral',
+                text: '⚠️ You are not allowed to use the GlassKiss kill switch.',
+            },
+        }
+    }
+
+    switch (subcommand.toLowerCase()) {
+        case 'status': {
+            const freeze = await KillSwitch.get(state)
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: freeze?.frozen
+                        ? `🛑 Frozen since ${freeze.frozenAt} by ${freeze.frozenBy}: ${freeze.reason}\nRevoked sessions: ${freeze.revokedRequestIds.length}`
+                        : '✅ No freeze in effect.',
+                },
+            }
+        }
+
+        case 'freeze': {
+            if (reason.length < 10) {
+                return {
+                    status: 200,
+                    body: { response_type: 'ephemeral', text: `❌ A reason of at least 10 characters is required.\n${USAGE}` },
+                }
+            }
+
+            const { freeze, alreadyFrozen } = await KillSwitch.freeze(state, actor, reason)
+
+            logger.warn('EMERGENCY FREEZE requested via Slack', { freezeId: freeze.id, actor, reason, alreadyFrozen })
+
+            await emit({
+                topic: 'freeze-sessions',
+                data: { freezeId: freeze.id },
+            })
+
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: alreadyFrozen
+                        ? `🛑 Already frozen since ${freeze.frozenAt}; sweeping active sessions again.`
+                        : '🛑 Freeze in effect. Revoking all active sessions; the notice follows in the channel.',
+                },
+            }
+        }
+
+        case 'unfreeze': {
+            const lifted = await KillSwitch.lift(state, actor, reason || undefined)
+            if (!lifted) {
+                return {
+                    status: 200,
+                    body: { response_type: 'ephemeral', text: 'ℹ️ No freeze is in effect.' },
+                }
+            }
+
+            logger.warn('Emergency freeze lifted via Slack', { freezeId: lifted.id, actor, reason })
+
+            try {
+                await SlackService.sendUnfreezeNotice(lifted)
+            } catch (error) {
+                logger.warn('Failed to send Slack unfreeze notice', { freezeId: lifted.id, error })
+            }
+
+            return {
+                status: 200,
+                body: { response_type: 'ephemeral', text: '✅ Freeze lifted.' },
+            }
+        }
+
+        default:
+            return {
+                status: 200,
+                body: { response_type: 'ephemeral', text: USAGE },
+            }
+    }
+}
@@ -1,20 +1,21 @@
 /**
  * Slack Interactivity API
  * Handles button clicks from Slack approval messages
- * This endpoint receives POST requests from Slack when users click buttons
+ * This endpoint receives POST requests from Slack when users click buttons;
+ * anything not signed by Slack is refused
  */
 
 import { ApiRouteConfig, Handlers } from 'motia'
 import { z } from 'zod'
+import { SlackAuth } from '../services/api-auth'
+import { ApprovalRepository } from '../services/approval-repository'
+import { ApproverDirectory } from '../services/approver-directory'
+import { SessionExtensions } from '../services/session-extensions'
 import { SlackService } from '../services/slack-service'
 
 // Slack sends URL-encoded payload, but we'll parse it
 const bodySchema = z.object({
     payload: z.string().optional(),
-    // Direct JSON payload for testing
-    action: z.enum(['approve', 'reject']).optional(),
-    requestId: z.string().optional(),
-    approver: z.string().optional(),
 })
 
 export const config: ApiRouteConfig = {
@@ -25,7 +26,7 @@ export const config: ApiRouteConfig = {
     method: 'POST',
     path: '/slack/interactivity',
     bodySchema,
-    emits: ['provision-credentials'],
+    emits: ['provision-credentials', 'extend-access'],
 }
 
 export const handler: Handlers['SlackInteractivityAPI'] = async (
@@ -34,132 +35,210 @@ export const handler: Handlers['SlackInteractivityAPI'] = async (
 ) => {
     logger.info('Slack interactivity request received')
 
+    // payload.user.id is only as trustworthy as the signature over it
+    const denied = SlackAuth.verify(req.headers, req.rawBody)
+    if (denied) {
+        logger.warn('Unsigned Slack interaction refused', { status: denied.status, error: denied.body.error })
+        return denied as any
+    }
+
+    if (!req.body.payload) {
+        return {
+            status: 400,
+            body: { error: 'Missing payload' },
+        } as any
+    }
+
     let action: string
     let requestId: string
     let approver: string
 
     // Parse Slack payload (URL-encoded JSON string)
-    if (req.body.payload) {
-        try {
-            const payload = JSON.parse(req.body.payload)
-
-            // Extract action from button click
-            const actionData = payload.actions?.[0]
-            const actionId = actionData?.action_id || ''
-
-            // action_id format: "approve_<requestId>" or "reject_<requestId>"
-            if (actionId.startsWith('approve_')) {
-                action = 'approve'
-                requestId = actionId.replace('approve_', '')
-            } else if (actionId.startsWith('reject_')) {
-                action = 'reject'
-                requestId = actionId.replace('reject_', '')
-            } else {
-                return {
-                    status: 400,
-                    body: { error: 'Unknown action' },
-                } as any
-            }
+    try {
+        const payload = JSON.parse(req.body.payload)
 
-            // Get approver from Slack user
-            approver = payload.user?.username || payload.user?.name || 'slack_user'
+        // Extract action from button click
+        const actionData = payload.actions?.[0]
+        const actionId = actionData?.action_id || ''
 
-            logger.info('Slack interaction parsed', { action, requestId, approver })
-        } catch (error) {
-            logger.error('Failed to parse Slack payload', { error })
+        // action_id format: "<action>_<requestId>", action one of
+        // approve, reject, approve-extension, reject-extension
+        const extensionAction = actionId.match(/^(approve-extension|reject-extension)_(.+)$/)
+        if (extensionAction) {
+            action = extensionAction[1]
+            requestId = extensionAction[2]
+        } else if (actionId.startsWith('approve_')) {
+            action = 'approve'
+            requestId = actionId.replace('approve_', '')
+        } else if (actionId.startsWith('reject_')) {
+            action = 'reject'
+            requestId = actionId.replace('reject_', '')
+        } else {
             return {
                 status: 400,
-                body: { error: 'Invalid payload' },
+                body: { error: 'Unknown action' },
             } as any
         }
-    } else if (req.body.action && req.body.requestId) {
-        // Direct API call for testing
-        action = req.body.action
-        requestId = req.body.requestId
-        approver = req.body.approver || 'api_user'
-    } else {
+
+        // The approver is whoever the directory has for this Slack user,
+        // never what the Slack username happens to say
+        const slackUserId: string = payload.user?.id || ''
+        const person = ApproverDirectory.bySlackId(slackUserId)
+        if (!person) {
+            logger.warn('Slack user not in approver directory', {
+                slackUserId,
+                slackUser: payload.user?.username || payload.user?.name,
+                requestId,
+            })
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: '⚠️ Your Slack account is not in the approver directory, so you cannot act on access requests.',
+                },
+            }
+        }
+        approver = person.id
+
+        logger.info('Slack interaction parsed', { action, requestId, approver, slackUserId })
+    } catch (error) {
+        logger.error('Failed to parse Slack payload', { error })
         return {
             status: 400,
-            body: { error: 'Missing payload or action' },
+            body: { error: 'Invalid payload' },
         } as any
     }
 
-    // Get request state
-    const requestState = await state.get('access-requests', requestId)
-    if (!requestState) {
-        logger.warn('Request not found', { requestId })
-        return {
-            status: 200,
-            body: {
-                response_type: 'ephemeral',
-                text: `❌ Request \`${requestId}\` not found or already processed.`,
-            },
+    // Extension votes on an active session
+    if (action === 'approve-extension' || action === 'reject-extension') {
+        const vote = await SessionExtensions.vote(requestId, approver, action === 'approve-extension', { state })
+        const extension = vote.extension
+
+        if (vote.outcome === 'approved' && extension) {
+            await emit({
+                topic: 'extend-access',
+                data: { requestId, extensionId: extension.id },
+            })
         }
-    }
 
-    // Get approval state
-    const allApprovals = await state.getGroup('approval-status')
-    const approvalState = allApprovals.find((a: any) => a.requestId === requestId)
+        const text = {
+            request_not_found: `❌ Request \`${requestId}\` not found.`,
+            no_pending_extension: `❌ No extension of \`${requestId}\` is waiting for approval.`,
+            not_authorized: `⚠️ You are not authorized to approve this extension.\nApprovers: ${extension?.approvers.join(', ')}`,
+            self_approval: `⚠️ You cannot approve your own extension.`,
+            already_voted: `ℹ️ You already approved this extension.`,
+            recorded: `✅ Extension approval recorded by *${approver}*.\n📊 Progress: ${extension?.approvals.length}/${extension?.requiredApprovals} approvals`,
+            approved: `✅ Extension of \`${requestId}\` by ${extension?.minutes} minutes **APPROVED** by *${approver}*.`,
+            rejected: `❌ Extension of \`${requestId}\` **DENIED** by *${approver}*.`,
+        }[vote.outcome]
+
+        logger.info('Extension vote via Slack', { requestId, approver, outcome: vote.outcome })
 
-    if (!approvalState) {
         return {
             status: 200,
             body: {
-                response_type: 'ephemeral',
-                text: `❌ Approval record for \`${requestId}\` not found.`,
+                response_type: ['approved', 'rejected', 'recorded'].includes(vote.outcome) ? 'in_channel' : 'ephemeral',
+                text,
             },
         }
     }
 
-    if (action === 'approve') {
-        // Check if approver is authorized
-        if (!approvalState.approvers?.includes(approver)) {
-            // For Slack users, allow if they have the word "lead" or "senior" in their name
-            const isAuthorized =
-                approver.toLowerCase().includes('lead') ||
-                approver.toLowerCase().includes('senior') ||
-                approver.toLowerCase().includes('vp') ||
-                approvalState.approvers?.includes(approver)
-
-            if (!isAuthorized) {
-                logger.warn('Unauthorized approver from Slack', { approver, requiredApprovers: approvalState.approvers })
-                return {
-                    status: 200,
-                    body: {
-                        response_type: 'ephemeral',
-                        text: `⚠️ You are not authorized to approve this request.\nRequired approvers: ${approvalState.approvers?.join(', ')}`,
-                    },
-                }
+    const decision = action === 'approve'
+        ? await ApprovalRepository.approve({ state, streams }, requestId, approver)
+        : await ApprovalRepository.reject({ state, streams }, requestId, approver, 'Rejected via Slack')
+    const { approval, requestState } = decision
+
+    switch (decision.outcome) {
+        case 'request_not_found':
+            logger.warn('Request not found', { requestId })
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: `❌ Request \`${requestId}\` not found or already processed.`,
+                },
+            }
+
+        case 'approval_not_found':
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: `❌ Approval record for \`${requestId}\` not found.`,
+                },
+            }
+
+        case 'not_pending':
+            logger.warn('Slack decision on a request that is past it', { requestId, action, status: requestState?.status })
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: `ℹ️ Request \`${requestId}\` is already *${requestState?.status}*.`,
+                },
+            }
+
+        case 'not_authorized':
+            logger.warn('Unauthorized approver from Slack', { approver, requiredApprovers: approval?.approvers })
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: `⚠️ You are not authorized to ${action} this request.\nRequired approvers: ${approval?.approvers.join(', ')}`,
+                },
+            }
+
+        case 'self_approval':
+            logger.warn('Requester tried to approve own request from Slack', { requestId, approver })
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: '⚠️ You cannot approve your own request.',
+                },
+            }
+
+        case 'forbidden_pairing':
+            logger.warn('Forbidden approver pairing from Slack', { requestId, approver, requester: requestState?.requester })
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: `⚠️ Policy does not allow you to approve requests from ${requestState?.requester}.`,
+                },
+            }
+
+        case 'already_approved':
+            return {
+                status: 200,
+                body: {
+                    response_type: 'ephemeral',
+                    text: `ℹ️ You already approved \`${requestId}\`.\n📊 Progress: ${approval?.currentApprovals}/${approval?.requiredApprovals} approvals`,
+                },
             }
-        }
 
-        // Update approval status
-        const newApprovals = (approvalState.currentApprovals || 0) + 1
-        await state.set('approval-status', requestId, {
-            ...approvalState,
-            currentApprovals: newApprovals,
-            status: newApprovals >= approvalState.requiredApprovals ? 'approved' : 'pending',
-        })
-
-        // Update request status
-        await state.set('access-requests', requestId, {
-            ...requestState,
-            status: newApprovals >= approvalState.requiredApprovals ? 'approved' : 'pending_approval',
-        })
-
-        // If all approvals received, provision credentials
-        if (newApprovals >= approvalState.requiredApprovals) {
+        case 'recorded':
+            return {
+                status: 200,
+                body: {
+                    response_type: 'in_channel',
+                    text: `✅ Approval recorded by *${approver}*.\n📊 Progress: ${approval?.currentApprovals}/${approval?.requiredApprovals} approvals`,
+                },
+            }
+
+        case 'approved':
+            // If all approvals received, provision credentials
             logger.info('All approvals received via Slack, provisioning credentials', { requestId })
 
             await emit({
                 topic: 'provision-credentials',
                 data: {
                     requestId,
-                    requester: requestState.requester,
-                    resource: requestState.resource,
-                    accessLevel: requestState.accessLevel,
-                    duration: requestState.duration,
-                    reason: requestState.reason,
+                    requester: requestState!.requester,
+                    resource: requestState!.resource,
+                    accessLevel: requestState!.accessLevel,
+                    duration: requestState!.duration,
+                    reason: requestState!.reason,
                 },
             })
 
@@ -177,58 +256,23 @@ export const handler: Handlers['SlackInteractivityAPI'] = async (
                     text: `✅ Request \`${requestId}\` **APPROVED** by *${approver}*!\n🔑 Credentials are being provisioned...`,
                 },
             }
-        }
 
-        return {
-            status: 200,
-            body: {
-                response_type: 'in_channel',
-                text: `✅ Approval recorded by *${approver}*.\n📊 Progress: ${newApprovals}/${approvalState.requiredApprovals} approvals`,
-            },
-        }
-    } else if (action === 'reject') {
-        // Update states for rejection
-        await state.set('approval-status', requestId, {
-            ...approvalState,
-            status: 'rejected',
-        })
-
-        await state.set('access-requests', requestId, {
-            ...requestState,
-            status: 'rejected',
-        })
-
-        // Update stream
-        const approvalEntry = (await streams.approvalRequest.list('approvals')).find(
-            (a: any) => a.requestId === requestId
-        )
-        if (approvalEntry) {
-            await streams.approvalRequest.set('approvals', approvalEntry.id, {
-                ...approvalEntry,
-                status: 'rejected',
-            })
-        }
-
-        // Send Slack confirmation
-        try {
-            await SlackService.sendApprovalConfirmation(requestId, approver, false)
-        } catch (e) {
-            // Ignore Slack errors
-        }
+        case 'rejected':
+            // Send Slack confirmation
+            try {
+                await SlackService.sendApprovalConfirmation(requestId, approver, false)
+            } catch (e) {
+                // Ignore Slack errors
+            }
 
-        logger.info('Request rejected via Slack', { requestId, approver })
+            logger.info('Request rejected via Slack', { requestId, approver })
 
-        return {
-            status: 200,
-            body: {
-                response_type: 'in_channel',
-                text: `❌ Request \`${requestId}\` **REJECTED** by *${approver}*.`,
-            },
-        }
+            return {
+                status: 200,
+                body: {
+                    response_type: 'in_channel',
+                    text: `❌ Request \`${requestId}\` **REJECTED** by *${approver}*.`,
+                },
+            }
     }
-
-    return {
-        status: 400,
-        body: { error: 'Invalid action' },
-    } as any
 }
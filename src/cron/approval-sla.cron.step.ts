@@ -0,0 +1,71 @@
+import { CronConfig, Handlers } from 'motia'
+import { ApprovalPolicies } from '../services/approval-policy'
+import { ApprovalRepository } from '../services/approval-repository'
+import { ApprovalSlas } from '../services/approval-sla'
+import { ApproverDirectory } from '../services/approver-directory'
+import { AccessState } from '../services/glasskiss-types'
+import { SlackService } from '../services/slack-service'
+
+export const config: CronConfig = {
+    type: 'cron',
+    name: 'ApprovalSlaWatcher',
+    description:
+        'Re-pings, escalates and finally expires access requests waiting too long for approval',
+    cron: '* * * * *', // Run every minute
+    emits: [],
+    flows: ['glasskiss'],
+}
+
+export const handler: Handlers['ApprovalSlaWatcher'] = async ({
+    logger,
+    state,
+    streams,
+}) => {
+    const now = new Date()
+    const due = (await ApprovalRepository.pending({ state, streams }))
+        .filter(approval => ApprovalSlas.dueStep(approval, now) !== null)
+    if (due.length === 0) {
+        return
+    }
+
+    for (const pending of due) {
+        // Older records can still be pending for a request that was cancelled
+        const current = await state.get<AccessState>('access-requests', pending.requestId)
+        if (current?.status !== 'pending_approval') {
+            continue
+        }
+
+        // Decided under the request's lock, so a vote arriving now wins or loses cleanly
+        const { outcome, approval, requestState } = await ApprovalRepository.advanceSla(
+            { state, streams },
+            pending.requestId,
+            now
+        )
+
+        const event = approval?.slaEvents?.slice(-1)[0]
+        if (!approval || !event || (outcome !== 'reminded' && outcome !== 'escalated' && outcome !== 'expired')) {
+            logger.info('Approval SLA step skipped', { requestId: pending.requestId, outcome, status: requestState?.status })
+            continue
+        }
+
+        logger.warn('Approval SLA step taken', {
+            requestId: approval.requestId,
+            step: event.step,
+            notified: event.notified,
+            details: event.details,
+        })
+
+        await SlackService.sendApprovalSlaNotice({
+            requestId: approval.requestId,
+            requester: approval.requester,
+            resource: approval.resource,
+            step: event.step,
+            notify: event.notified.map(id => ApproverDirectory.mention(id)),
+            details: event.details,
+            policy: approval.policy ? ApprovalPolicies.describe(approval.policy.rule) : undefined,
+            expireAt: ApprovalSlas.of(approval).expireAt,
+        })
+    }
+
+    logger.info('Approval SLA sweep complete', { due: due.length })
+}
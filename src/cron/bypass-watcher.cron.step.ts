@@ -0,0 +1,95 @@
+import { CronConfig, Handlers } from 'motia'
+import { randomBytes } from 'crypto'
+import { BypassDetector, BypassSuspects } from '../services/bypass-detector'
+import { CredentialProviders } from '../services/credential-provider'
+import { ObservedQuery } from '../services/database-service'
+import { Credentials } from '../services/glasskiss-types'
+
+export const config: CronConfig = {
+    type: 'cron',
+    name: 'BypassWatcher',
+    description:
+        'Flags statements temp roles ran outside the proxy/API by comparing database activity with the session log',
+    cron: '* * * * *', // Run every minute
+    emits: ['force-revoke'],
+    flows: ['glasskiss'],
+}
+
+export const handler: Handlers['BypassWatcher'] = async ({
+    logger,
+    state,
+    streams,
+    emit,
+}) => {
+    const allCredentials = await state.getGroup<Credentials>('credentials')
+    if (allCredentials.length === 0) {
+        return
+    }
+
+    // Sample each real database once, however many resources share it
+    const observed: ObservedQuery[] = []
+    for (const provider of CredentialProviders.all().filter(p => p.verifiable)) {
+        try {
+            observed.push(...await provider.sampleActivity())
+        } catch (error) {
+            logger.error('Failed to sample database activity', { provider: provider.name, error })
+        }
+    }
+
+    for (const credential of allCredentials) {
+        const { requestId, sessionId, username } = credential
+        const roleActivity = observed.filter((query) => query.username === username)
+        const previous = await state.get<BypassSuspects>('bypass-suspects', requestId)
+
+        if (roleActivity.length === 0 && !previous) {
+            continue
+        }
+
+        const logged = await streams.sessionLog.getGroup(sessionId)
+        const unlogged = BypassDetector.findUnlogged(roleActivity, logged)
+        const { confirmed, suspects } = BypassDetector.confirm(requestId, unlogged, logged, previous)
+
+        if (confirmed.length === 0) {
+            if (Object.keys(suspects.statements).length > 0) {
+                await state.set('bypass-suspects', requestId, suspects)
+            } else if (previous) {
+                await state.delete('bypass-suspects', requestId)
+            }
+            continue
+        }
+
+        logger.error('ENFORCEMENT BYPASS DETECTED', {
+            requestId,
+            sessionId,
+            username,
+            statements: confirmed.map((s) => s.statement.substring(0, 200)),
+        })
+
+        // The bypassed statements belong in the session record and its audit report
+        for (const statement of confirmed) {
+            const logId = randomBytes(8).toString('hex')
+            await streams.sessionLog.set(sessionId, logId, {
+                id: logId,
+                requestId,
+                sessionId,
+                timestamp: new Date().toISOString(),
+                command: statement.statement,
+                queryType: 'UNLOGGED',
+                flagged: true,
+                flagReason: `Enforcement bypass: seen in ${statement.source}, never sent through GlassKiss`,
+            })
+        }
+
+        await state.delete('bypass-suspects', requestId)
+
+        await emit({
+            topic: 'force-revoke',
+            data: {
+                requestId,
+                reason: 'bypass_detected',
+                details: `${confirmed.length} statement(s) executed outside enforcement: ` +
+                    confirmed.slice(0, 3).map((s) => s.statement.substring(0, 100)).join('; '),
+            },
+        })
+    }
+}
@@ -1,79 +1,110 @@
 import { CronConfig, Handlers } from 'motia'
-import { CredentialManager } from '../services/credential-manager'
+import { CredentialProviders } from '../services/credential-provider'
+import { ZombieRole } from '../services/database-service'
+import { Credentials } from '../services/glasskiss-types'
+import { RevocationSchedule } from '../services/revocation-schedule'
+import { SlackService } from '../services/slack-service'
 
 export const config: CronConfig = {
     type: 'cron',
     name: 'CheckActiveCredentials',
     description:
-        'Daily zombie defense: checks for expired credentials that still exist',
-    cron: '0 2 * * *', // Run daily at 2 AM
-    emits: [],
+        'Zombie defense: finds roles and sessions that outlived their grant in the database',
+    cron: '*/5 * * * *', // Run every 5 minutes
+    emits: ['force-revoke'],
     flows: ['glasskiss'],
 }
 
 export const handler: Handlers['CheckActiveCredentials'] = async ({
     logger,
     state,
+    emit,
 }) => {
     logger.info('Running zombie credential defense check')
 
-    // Get all credential records
-    const allCredentials = await state.getGroup('credentials')
-
-    if (allCredentials.length === 0) {
-        logger.info('No active credentials found')
+    const providers = CredentialProviders.all().filter(provider => provider.verifiable)
+    if (providers.length === 0) {
+        logger.info('No provider backed by a real database, nothing to check')
         return
     }
 
-    logger.info(`Checking ${allCredentials.length} credential records`)
-
+    const allCredentials = await state.getGroup<Credentials>('credentials')
     let zombieCount = 0
-    const now = new Date()
 
-    for (const credential of allCredentials) {
-        const cred = credential as any
-        const expiresAt = new Date(cred.expiresAt)
+    for (const provider of providers) {
+        let zombies: ZombieRole[]
+        try {
+            zombies = await provider.detectZombies()
+        } catch (error) {
+            logger.error('Zombie detection failed', { provider: provider.name, error })
+            continue
+        }
 
-        // Check if credential is expired
-        if (now > expiresAt) {
-            logger.warn('Expired credential found in state!', {
-                requestId: cred.requestId,
-                username: cred.username,
-                expiresAt: cred.expiresAt,
-            })
+        const revokedUsernames = new Set<string>()
 
-            // Check if user still exists in database
-            const stillExists = await CredentialManager.checkUserExists(
-                cred.username
-            )
+        for (const zombie of zombies) {
+            const credential = allCredentials.find((c) => c.username === zombie.username)
+            const requestId = zombie.requestId ?? credential?.requestId ?? 'unknown'
 
-            if (stillExists) {
-                logger.error('ZOMBIE CREDENTIAL DETECTED!', {
-                    requestId: cred.requestId,
-                    username: cred.username,
-                })
+            // Revocation already fired and is running or waiting to retry (its
+            // failures alert on their own); only tampering is reported meanwhile
+            if (credential && zombie.kind !== 'valid_until_changed') {
+                const deadline = await RevocationSchedule.get(state, credential.requestId)
+                if (deadline?.status === 'fired') {
+                    logger.info('Expired role awaiting its revocation, not a zombie', {
+                        requestId,
+                        username: zombie.username,
+                        attempts: deadline.attempts,
+                    })
+                    continue
+                }
+            }
 
-                // Force revoke
-                await CredentialManager.revokeCredentials(
-                    cred.username,
-                    cred.resource
-                )
+            zombieCount++
 
-                zombieCount++
+            logger.error('ZOMBIE CREDENTIAL DETECTED!', {
+                requestId,
+                username: zombie.username,
+                kind: zombie.kind,
+                details: zombie.details,
+            })
 
-                // In production: alert security team, page on-call
+            await SlackService.sendSecurityAlert({
+                requestId,
+                sessionId: credential?.sessionId ?? 'n/a',
+                alertType: 'zombie',
+                details: `\`${zombie.username}\`: ${zombie.details}`,
+                severity: zombie.kind === 'live_session' ? 'critical' : 'high',
+            })
+
+            // One revocation per role, however many findings it has
+            if (revokedUsernames.has(zombie.username)) {
+                continue
+            }
+            revokedUsernames.add(zombie.username)
+
+            if (credential) {
+                // Still a live grant as far as GlassKiss knows: revoke it the normal way
+                await emit({
+                    topic: 'force-revoke',
+                    data: {
+                        requestId: credential.requestId,
+                        reason: 'zombie',
+                        details: zombie.details,
+                    },
+                })
+            } else {
+                // Nothing in state to update, just remove it from the database
+                await provider.revoke(zombie.username, requestId, 'zombie')
                 logger.error('SECURITY ALERT: Zombie credential force-revoked', {
-                    username: cred.username,
+                    username: zombie.username,
                 })
             }
-
-            // Clean up state
-            await state.delete('credentials', cred.requestId)
         }
     }
 
     logger.info('Zombie defense check complete', {
-        checked: allCredentials.length,
+        providers: providers.length,
         zombiesFound: zombieCount,
     })
 }
@@ -0,0 +1,74 @@
+import { CronConfig, Handlers } from 'motia'
+import { RevocationSchedule } from '../services/revocation-schedule'
+
+export const config: CronConfig = {
+    type: 'cron',
+    name: 'RevocationSweeper',
+    description:
+        'Fires revoke-access for every persisted revocation deadline that is due',
+    cron: '* * * * *', // Run every minute
+    emits: ['revoke-access', 'reconcile-sessions'],
+    flows: ['glasskiss'],
+}
+
+export const handler: Handlers['RevocationSweeper'] = async ({
+    logger,
+    state,
+    emit,
+}) => {
+    // Live credentials without a deadline get one from their expiry
+    const rearmed = await RevocationSchedule.rearm(state)
+    if (rearmed.length > 0) {
+        logger.warn('Re-armed missing revocation deadlines', {
+            requestIds: rearmed.map(deadline => deadline.requestId),
+        })
+    }
+
+    // Deadlines still pending when the server started are picked up by its
+    // first sweep, which also asks for a startup reconciliation
+    if (await RevocationSchedule.recordSweep(state)) {
+        const pending = await RevocationSchedule.pending(state)
+        logger.info('Revocation schedule loaded', { pendingDeadlines: pending.length })
+
+        await emit({
+            topic: 'reconcile-sessions',
+            data: { trigger: 'startup' },
+        })
+    }
+
+    const due = await RevocationSchedule.due(state)
+    if (due.length === 0) {
+        return
+    }
+
+    for (const deadline of due) {
+        const fired = await RevocationSchedule.markFired(state, deadline)
+
+        logger.info('Revocation deadline reached, triggering revocation', {
+            requestId: deadline.requestId,
+            revokeAt: deadline.revokeAt,
+            attempt: fired.attempts,
+        })
+
+        await emit({
+            topic: 'revoke-access',
+            // A failed revocation is retried with the reason it was first made for
+            data: fired.retry
+                ? {
+                    requestId: deadline.requestId,
+                    reason: fired.retry.reason,
+                    details: `${fired.retry.details ?? 'Retry'} (attempt ${fired.attempts}, last error: ${fired.retry.error})`,
+                    revokedBy: fired.retry.revokedBy,
+                }
+                : {
+                    requestId: deadline.requestId,
+                    reason: 'timer_expired',
+                    details: fired.attempts > 1
+                        ? `Deadline ${deadline.revokeAt} reached (attempt ${fired.attempts})`
+                        : undefined,
+                },
+        })
+    }
+
+    logger.info('Revocation sweep complete', { fired: due.length })
+}
@@ -1,7 +1,7 @@
 import { EventConfig, Handlers } from 'motia'
 import { z } from 'zod'
 import { RiskAnalyzer } from '../services/risk-analyzer'
-import { AccessState } from '../services/glasskiss-types'
+import { RequestStateMachine } from '../services/request-state-machine'
 
 const inputSchema = z.object({
     requestId: z.string(),
@@ -39,14 +39,18 @@ export const handler: Handlers['CalculateRiskScore'] = async (
     })
 
     // Update state with risk score
-    const currentState = await state.get<AccessState>('access-requests', requestId)
-    if (currentState) {
-        await state.set('access-requests', requestId, {
-            ...currentState,
+    const result = await RequestStateMachine.transition(state, requestId, 'pending_approval', {
+        actor: 'risk-analyzer',
+        reason: `Risk score ${analysis.riskScore}, ${analysis.requiredApprovals} approval(s) required`,
+        changes: {
             riskScore: analysis.riskScore,
             requiredApprovals: analysis.requiredApprovals,
-            status: 'pending_approval',
-        })
+        },
+    })
+    if (!result.ok || !result.requestState) {
+        // Cancelled or rejected while it was being scored
+        logger.warn('Request not sent for approval', { requestId, error: result.error })
+        return
     }
 
     // Emit to approval workflow
@@ -54,7 +58,7 @@ export const handler: Handlers['CalculateRiskScore'] = async (
         topic: 'request-approval',
         data: {
             requestId,
-            requester: currentState?.requester || '',
+            requester: result.requestState.requester,
             riskScore: analysis.riskScore,
             resource,
             accessLevel,
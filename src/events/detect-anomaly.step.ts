@@ -1,5 +1,6 @@
 import { EventConfig, Handlers } from 'motia'
 import { z } from 'zod'
+import { ParsedStatement, SqlParser } from '../services/sql-parser'
 
 const inputSchema = z.object({
     requestId: z.string(),
@@ -8,23 +9,23 @@ const inputSchema = z.object({
     logId: z.string(),
 })
 
-// Dangerous SQL patterns
-const DANGEROUS_PATTERNS = [
+// Dangerous SQL patterns, checked against every parsed statement
+const DANGEROUS_PATTERNS: { name: string; test: (statement: ParsedStatement) => boolean }[] = [
     {
         name: 'DROP without confirmation',
-        regex: /^DROP\s+(TABLE|DATABASE|SCHEMA)/i,
+        test: (statement) => statement.kind === 'DROP',
     },
     {
         name: 'TRUNCATE without confirmation',
-        regex: /^TRUNCATE\s+TABLE/i,
+        test: (statement) => statement.kind === 'TRUNCATE',
     },
     {
         name: 'DELETE without WHERE clause',
-        regex: /^DELETE\s+FROM\s+\w+\s*(?!WHERE)/i,
+        test: (statement) => statement.writes.some((w) => w.target.role === 'delete' && !w.hasWhere),
     },
     {
         name: 'UPDATE without WHERE clause',
-        regex: /^UPDATE\s+\w+\s+SET\s+.*?(?!WHERE)/i,
+        test: (statement) => statement.writes.some((w) => w.target.role === 'update' && !w.hasWhere),
     },
 ]
 
@@ -54,8 +55,9 @@ export const handler: Handlers['DetectAnomaly'] = async (
     let flagged = false
     let flagReason: string | undefined
 
-    for (const pattern of DANGEROUS_PATTERNS) {
-        if (pattern.regex.test(command.trim())) {
+    for (const statement of SqlParser.parse(command)) {
+        const pattern = DANGEROUS_PATTERNS.find((p) => p.test(statement))
+        if (pattern) {
             flagged = true
             flagReason = pattern.name
             break
@@ -0,0 +1,76 @@
+import { EventConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { CredentialProviders } from '../services/credential-provider'
+import { AccessState, Credentials } from '../services/glasskiss-types'
+import { RequestStateMachine } from '../services/request-state-machine'
+import { RevocationSchedule } from '../services/revocation-schedule'
+
+const inputSchema = z.object({
+    requestId: z.string(),
+    extensionId: z.string(),
+})
+
+export const config: EventConfig = {
+    type: 'event',
+    name: 'ExtendAccess',
+    description: 'Moves the revocation deadline and VALID UNTIL of an approved extension',
+    flows: ['glasskiss'],
+    subscribes: ['extend-access'],
+    emits: [],
+    input: inputSchema,
+}
+
+export const handler: Handlers['ExtendAccess'] = async (
+    input,
+    { logger, state }
+) => {
+    const { requestId, extensionId } = input
+
+    const requestState = await state.get<AccessState>('access-requests', requestId)
+    const extension = requestState?.extensions?.find((e) => e.id === extensionId)
+    if (!requestState || !extension || extension.status !== 'approved') {
+        logger.warn('No approved extension to apply', { requestId, extensionId })
+        return
+    }
+
+    const credential = await state.get<Credentials>('credentials', requestId)
+    if (!credential) {
+        logger.warn('Session ended before its extension could be applied', { requestId, extensionId })
+        return
+    }
+
+    // Extra time counts from the current expiry; the password is not re-issued
+    const base = Math.max(new Date(credential.expiresAt).getTime(), Date.now())
+    const newExpiresAt = new Date(base + extension.minutes * 60 * 1000)
+
+    const provider = CredentialProviders.forResource(credential.resource)
+    const extended = await provider.extend(credential.username, requestId, newExpiresAt)
+    if (!extended) {
+        logger.error('Failed to extend credentials, session keeps its original expiry', {
+            requestId,
+            extensionId,
+            username: credential.username,
+        })
+        return
+    }
+
+    await state.set('credentials', requestId, {
+        ...credential,
+        expiresAt: newExpiresAt.toISOString(),
+    })
+    await RevocationSchedule.schedule(state, requestId, newExpiresAt.toISOString())
+
+    await RequestStateMachine.update(state, requestId, (current) => ({
+        ...current,
+        extensions: (current.extensions ?? []).map((e) => e.id === extensionId
+            ? { ...e, status: 'applied' as const, newExpiresAt: newExpiresAt.toISOString() }
+            : e),
+    }))
+
+    logger.info('Session extended', {
+        requestId,
+        extensionId,
+        minutes: extension.minutes,
+        expiresAt: newExpiresAt.toISOString(),
+    })
+}
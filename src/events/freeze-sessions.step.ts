@@ -0,0 +1,72 @@
+import { EventConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { AccessState, Credentials } from '../services/glasskiss-types'
+import { KillSwitch } from '../services/kill-switch'
+import { RevocationSchedule } from '../services/revocation-schedule'
+import { FrozenSession, SlackService } from '../services/slack-service'
+
+const inputSchema = z.object({
+    freezeId: z.string(),
+})
+
+export const config: EventConfig = {
+    type: 'event',
+    name: 'FreezeSessions',
+    description: 'Emergency freeze: force-revokes every live credential and posts one Slack notice',
+    flows: ['glasskiss'],
+    subscribes: ['freeze-sessions'],
+    emits: ['force-revoke'],
+    input: inputSchema,
+}
+
+export const handler: Handlers['FreezeSessions'] = async (
+    input,
+    { logger, state, emit }
+) => {
+    const freeze = await KillSwitch.get(state)
+    if (!freeze?.frozen || freeze.id !== input.freezeId) {
+        logger.info('Freeze no longer in effect, nothing to revoke', { freezeId: input.freezeId })
+        return
+    }
+
+    const credentials = await state.getGroup<Credentials>('credentials')
+
+    logger.warn('EMERGENCY FREEZE: revoking all active sessions', {
+        freezeId: freeze.id,
+        frozenBy: freeze.frozenBy,
+        sessions: credentials.length,
+    })
+
+    // All at once; each force-revoke is handled by its own RevokeAccess run
+    const sessions: FrozenSession[] = await Promise.all(credentials.map(async (credential) => {
+        await RevocationSchedule.cancel(state, credential.requestId)
+
+        await emit({
+            topic: 'force-revoke',
+            data: {
+                requestId: credential.requestId,
+                reason: 'forced',
+                details: `Emergency freeze: ${freeze.reason}`,
+                revokedBy: freeze.frozenBy,
+            },
+        })
+
+        const requestState = await state.get<AccessState>('access-requests', credential.requestId)
+        return {
+            requestId: credential.requestId,
+            requester: requestState?.requester ?? 'unknown',
+            resource: credential.resource,
+            username: credential.username,
+        }
+    }))
+
+    const updated = await KillSwitch.recordRevoked(state, sessions.map(session => session.requestId))
+
+    try {
+        await SlackService.sendFreezeNotice(updated ?? freeze, sessions)
+    } catch (error) {
+        logger.warn('Failed to send Slack freeze notice', { freezeId: freeze.id, error })
+    }
+
+    logger.info('Emergency freeze sweep complete', { freezeId: freeze.id, revoked: sessions.length })
+}
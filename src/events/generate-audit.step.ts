@@ -67,6 +67,8 @@ export const handler: Handlers['GenerateAudit'] = async (
         flaggedCommands,
         status: requestState.status,
         revokeReason: requestState.revokeReason,
+        revokedBy: requestState.revokedBy,
+        revokeDetails: requestState.revokeDetails,
     }
 
     // Store in audit stream
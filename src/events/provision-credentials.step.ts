@@ -1,9 +1,12 @@
 import { EventConfig, Handlers } from 'motia'
 import { z } from 'zod'
-import { CredentialManager } from '../services/credential-manager'
-import { AccessState, AccessScope } from '../services/glasskiss-types'
+import { CredentialProviders } from '../services/credential-provider'
+import { AccessScope } from '../services/glasskiss-types'
 import { ScopeAnalyzer } from '../services/scope-analyzer'
 import { AIService } from '../services/ai-service'
+import { CredentialVault } from '../services/credential-vault'
+import { KillSwitch } from '../services/kill-switch'
+import { RequestStateMachine } from '../services/request-state-machine'
 
 const inputSchema = z.object({
     requestId: z.string(),
@@ -37,6 +40,16 @@ export const handler: Handlers['ProvisionCredentials'] = async (
         duration,
     })
 
+    // Approvals that land during an emergency freeze are not honoured
+    if (await KillSwitch.isFrozen(state)) {
+        logger.warn('Provisioning refused during freeze', { requestId, requester })
+        await RequestStateMachine.transition(state, requestId, 'cancelled', {
+            actor: 'kill-switch',
+            reason: 'Emergency freeze in effect',
+        })
+        return
+    }
+
     try {
         let accessScope: AccessScope | undefined
 
@@ -56,6 +69,7 @@ export const handler: Handlers['ProvisionCredentials'] = async (
                     allowedTables: aiScope.tables,
                     allowedOperations: aiScope.operations as ('SELECT' | 'INSERT' | 'UPDATE' | 'DELETE')[],
                     rowFilters: {},
+                    allowedColumns: aiScope.columns,
                     maxRowsAffected: aiScope.maxRows,
                     extractedEntities: aiScope.entities.map(e => ({
                         type: e.type,
@@ -104,26 +118,30 @@ export const handler: Handlers['ProvisionCredentials'] = async (
             })
         }
 
-        // Provision credentials using CredentialManager
-        const credentials = await CredentialManager.provisionCredentials(
+        // Provision credentials with the provider configured for this resource
+        const provider = CredentialProviders.forResource(resource)
+        const credentials = await provider.provision({
             requestId,
             resource,
-            duration
-        )
+            durationMinutes: duration,
+            accessLevel,
+            accessScope,
+        })
 
         logger.info('Credentials provisioned', {
             requestId,
+            provider: provider.name,
             username: credentials.username,
             expiresAt: credentials.expiresAt,
             sessionId: credentials.sessionId,
         })
 
-        // Store credentials in state WITH access scope (in production, encrypt this!)
+        // Store credentials in state WITH access scope; the password only as an envelope
         await state.set('credentials', requestId, {
             id: requestId,
             requestId,
             username: credentials.username,
-            password: credentials.password,
+            passwordEnvelope: CredentialVault.seal(credentials.password, requestId),
             resource,
             expiresAt: credentials.expiresAt,
             createdAt: new Date().toISOString(),
@@ -132,15 +150,19 @@ export const handler: Handlers['ProvisionCredentials'] = async (
         })
 
         // Update request state
-        const requestState = await state.get<AccessState>(
-            'access-requests',
-            requestId
-        )
-        if (requestState) {
-            await state.set('access-requests', requestId, {
-                ...requestState,
-                status: 'active',
+        const result = await RequestStateMachine.transition(state, requestId, 'active', {
+            actor: 'system',
+            reason: `Provisioned ${credentials.username}`,
+        })
+        if (!result.ok) {
+            // Cancelled or revoked while the role was being created: take it back
+            logger.warn('Request left approved during provisioning, revoking new role', {
+                requestId,
+                error: result.error,
             })
+            await provider.revoke(credentials.username, requestId, 'cancelled')
+            await state.delete('credentials', requestId)
+            return
         }
 
         // Emit parallel events for monitoring and timer
@@ -0,0 +1,34 @@
+import { EventConfig, Handlers } from 'motia'
+import { z } from 'zod'
+import { SessionReconciler } from '../services/session-reconciler'
+
+const inputSchema = z.object({
+    trigger: z.enum(['startup', 'manual']),
+})
+
+export const config: EventConfig = {
+    type: 'event',
+    name: 'ReconcileSessions',
+    description: 'Reconciles credentials state, tracked users and database roles',
+    flows: ['glasskiss'],
+    subscribes: ['reconcile-sessions'],
+    emits: ['generate-audit'],
+    input: inputSchema,
+}
+
+export const handler: Handlers['ReconcileSessions'] = async (
+    input,
+    { logger, state, emit }
+) => {
+    logger.info('Reconciling sessions', { trigger: input.trigger })
+
+    const report = await SessionReconciler.reconcile(input.trigger, { state, logger })
+
+    // Requests closed by reconciliation still get their audit report
+    for (const missing of report.missingRoles) {
+        await emit({
+            topic: 'generate-audit',
+            data: { requestId: missing.requestId },
+        })
+    }
+}
@@ -1,6 +1,12 @@
 import { EventConfig, Handlers } from 'motia'
 import { z } from 'zod'
 import { randomBytes } from 'crypto'
+import { ApprovalPolicies } from '../services/approval-policy'
+import { ApprovalRepository } from '../services/approval-repository'
+import { ApprovalSlas } from '../services/approval-sla'
+import { ApproverDirectory } from '../services/approver-directory'
+import { RequestStateMachine } from '../services/request-state-machine'
+import { ResourceRegistry } from '../services/resource-registry'
 import { SlackService } from '../services/slack-service'
 
 const inputSchema = z.object({
@@ -26,7 +32,7 @@ export const config: EventConfig = {
 
 export const handler: Handlers['RequestApproval'] = async (
     input,
-    { logger, streams }
+    { logger, state, streams }
 ) => {
     const {
         requestId,
@@ -35,26 +41,44 @@ export const handler: Handlers['RequestApproval'] = async (
         resource,
         accessLevel,
         reason,
-        requiredApprovals,
     } = input
 
     logger.info('Creating approval request', {
         requestId,
         riskScore,
-        requiredApprovals,
+        requiredApprovals: input.requiredApprovals,
     })
 
-    // Determine approvers based on risk
-    const approvers =
-        riskScore > 70
-            ? ['tech_lead_1', 'vp_engineering_1']
-            : riskScore > 40
-                ? ['tech_lead_1']
-                : ['senior_dev_1']
+    // The resource's policy for this risk level decides who can approve and how many
+    const policy = ResourceRegistry.approvalPolicyFor(resource, riskScore, input.requiredApprovals)
+    const approvers = ApprovalPolicies.eligible(policy, requester)
+    const minimumApprovals = ApprovalPolicies.minimumApprovals(policy, requester)
+    if (minimumApprovals === null) {
+        // Nobody could ever approve it, so don't leave it waiting
+        const reason = `No eligible approvers can satisfy the approval policy (${ApprovalPolicies.describe(policy.rule)})`
+        const result = await RequestStateMachine.transition(state, requestId, 'rejected', {
+            actor: 'approval-policy',
+            reason,
+        })
+
+        logger.error('Request rejected: approval policy cannot be satisfied', {
+            requestId,
+            requester,
+            reason,
+            transitioned: result.ok,
+            error: result.error,
+        })
+        return
+    }
+    const requiredApprovals = minimumApprovals
+
+    // Reminders, escalation and expiry run from creation; see ApprovalSlaWatcher
+    const now = new Date()
+    const sla = ApprovalSlas.schedule(resource, riskScore, now)
 
-    // Create approval request in stream
+    // Create approval request, mirrored to the stream
     const approvalId = randomBytes(8).toString('hex')
-    await streams.approvalRequest.set('approvals', approvalId, {
+    const created = await ApprovalRepository.create({ state, streams }, {
         id: approvalId,
         requestId,
         requester,
@@ -66,15 +90,32 @@ export const handler: Handlers['RequestApproval'] = async (
         approvers,
         requiredApprovals,
         currentApprovals: 0,
-        timestamp: new Date().toISOString(),
+        approvedBy: [],
+        version: 0,
+        policy,
+        sla,
+        slaEvents: [],
+        timestamp: now.toISOString(),
     })
+    if (!created) {
+        logger.info('Request no longer awaits approval, no approval request created', { requestId })
+        return
+    }
+
+    // The request shows what the policy needs, not the risk band's default
+    await RequestStateMachine.update(state, requestId, (requestState) =>
+        requestState.requiredApprovals !== requiredApprovals ? { ...requestState, requiredApprovals } : null
+    )
 
-    logger.info('Approval request created in stream', {
+    logger.info('Approval request created', {
         approvalId,
         requestId,
         approvers,
     })
 
+    // Ping the people who can act now: delegates instead of anyone out of office
+    const notify = ApproverDirectory.available(approvers).filter((id) => approvers.includes(id))
+
     // Send real Slack notification
     try {
         await SlackService.sendApprovalRequest({
@@ -85,7 +126,9 @@ export const handler: Handlers['RequestApproval'] = async (
             reason,
             riskScore,
             requiredApprovals,
-            approvers,
+            approvers: notify.map((id) => ApproverDirectory.mention(id)),
+            policy: ApprovalPolicies.describe(policy.rule),
+            expiresAt: sla.expireAt,
         })
         logger.info('Slack notification sent', { requestId })
     } catch (error) {
@@ -1,12 +1,16 @@
 import { EventConfig, Handlers } from 'motia'
 import { z } from 'zod'
-import { CredentialManager } from '../services/credential-manager'
-import { AccessState } from '../services/glasskiss-types'
+import { CredentialProviders } from '../services/credential-provider'
+import { Credentials } from '../services/glasskiss-types'
+import { RequestStateMachine } from '../services/request-state-machine'
+import { RevocationSchedule } from '../services/revocation-schedule'
+import { SlackService } from '../services/slack-service'
 
 const inputSchema = z.object({
     requestId: z.string(),
-    reason: z.enum(['timer_expired', 'forced', 'anomaly_detected', 'manual']),
+    reason: z.enum(['timer_expired', 'forced', 'anomaly_detected', 'manual', 'zombie', 'bypass_detected']),
     details: z.string().optional(),
+    revokedBy: z.string().optional(),
 })
 
 export const config: EventConfig = {
@@ -23,22 +27,23 @@ export const handler: Handlers['RevokeAccess'] = async (
     input,
     { logger, state, emit }
 ) => {
-    const { requestId, reason, details } = input
+    const { requestId, reason, details, revokedBy } = input
 
-    logger.info('Revoking access', { requestId, reason, details })
+    logger.info('Revoking access', { requestId, reason, details, revokedBy })
 
     // Get credentials
-    const credentials = await state.get('credentials', requestId)
+    const credentials = await state.get<Credentials>('credentials', requestId)
     if (!credentials) {
         logger.warn('No credentials found for revocation', { requestId })
+        await RevocationSchedule.complete(state, requestId)
         return
     }
 
-    const username = (credentials as any).username
-    const resource = (credentials as any).resource
+    const { username, resource } = credentials
 
     // Attempt revocation with retry logic
     let success = false
+    let lastError = 'Provider reported the role was not revoked'
     const maxRetries = 3
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -48,7 +53,7 @@ export const handler: Handlers['RevokeAccess'] = async (
                 username,
             })
 
-            success = await CredentialManager.revokeCredentials(username, resource)
+            success = await CredentialProviders.forResource(resource).revoke(username, requestId, reason)
 
             if (success) {
                 logger.info('Credentials revoked successfully', {
@@ -59,6 +64,7 @@ export const handler: Handlers['RevokeAccess'] = async (
                 break
             }
         } catch (error) {
+            lastError = error instanceof Error ? error.message : String(error)
             logger.error(`Revocation attempt ${attempt} failed`, {
                 requestId,
                 error,
@@ -69,7 +75,6 @@ export const handler: Handlers['RevokeAccess'] = async (
                     requestId,
                     username,
                 })
-                // In production: page on-call, send alert
             } else {
                 // Wait before retry
                 await new Promise((resolve) => setTimeout(resolve, 1000 * attempt))
@@ -77,22 +82,51 @@ export const handler: Handlers['RevokeAccess'] = async (
         }
     }
 
+    if (!success) {
+        // The role may still be live in the database. Keep the credential, but
+        // expired so Glasskiss stops accepting it, and keep the deadline open
+        // so the sweeper tries again
+        await state.set('credentials', requestId, { ...credentials, expiresAt: new Date().toISOString() })
+        await RevocationSchedule.retry(state, requestId, { reason, details, revokedBy, error: lastError })
+
+        const failed = await RequestStateMachine.transition(state, requestId, 'revocation_failed', {
+            actor: revokedBy ?? 'system',
+            reason: `${reason}: ${lastError}`,
+        })
+        if (!failed.ok) {
+            logger.warn('Request status not changed to revocation_failed', { requestId, error: failed.error })
+        }
+
+        await SlackService.sendSecurityAlert({
+            requestId,
+            sessionId: credentials.sessionId,
+            alertType: 'revoked',
+            details: `Revoking \`${username}\` failed after ${maxRetries} attempts (${lastError}). The role may still be live; retrying automatically.`,
+            severity: 'critical',
+        })
+
+        logger.error('Access revocation failed, retry scheduled', { requestId, username, error: lastError })
+        return
+    }
+
     // Update state
-    const requestState = await state.get<AccessState>(
-        'access-requests',
-        requestId
-    )
-    if (requestState) {
-        await state.set('access-requests', requestId, {
-            ...requestState,
-            status: 'revoked',
+    const result = await RequestStateMachine.transition(state, requestId, 'revoked', {
+        actor: revokedBy ?? 'system',
+        reason: details ? `${reason}: ${details}` : reason,
+        changes: {
             revokedAt: new Date().toISOString(),
             revokeReason: reason,
-        })
+            revokedBy,
+            revokeDetails: details,
+        },
+    })
+    if (!result.ok) {
+        logger.warn('Request status not changed to revoked', { requestId, error: result.error })
     }
 
-    // Delete credentials from state
+    // Delete credentials from state and close the pending deadline
     await state.delete('credentials', requestId)
+    await RevocationSchedule.complete(state, requestId)
 
     // Emit to audit generation
     await emit({
@@ -102,5 +136,5 @@ export const handler: Handlers['RevokeAccess'] = async (
         },
     })
 
-    logger.info('Access revocation complete', { requestId, success })
+    logger.info('Access revocation complete', { requestId })
 }
@@ -1,5 +1,7 @@
 import { EventConfig, Handlers } from 'motia'
 import { z } from 'zod'
+import { Credentials } from '../services/glasskiss-types'
+import { RevocationSchedule } from '../services/revocation-schedule'
 
 const inputSchema = z.object({
     requestId: z.string(),
@@ -9,16 +11,16 @@ const inputSchema = z.object({
 export const config: EventConfig = {
     type: 'event',
     name: 'StartTimer',
-    description: 'Starts durable timer for automatic access expiration',
+    description: 'Persists the revocation deadline for automatic access expiration',
     flows: ['glasskiss'],
     subscribes: ['start-timer'],
-    emits: ['revoke-access'],
+    emits: [],
     input: inputSchema,
 }
 
 export const handler: Handlers['StartTimer'] = async (
     input,
-    { logger, emit }
+    { logger, state }
 ) => {
     const { requestId, duration } = input
 
@@ -27,27 +29,16 @@ export const handler: Handlers['StartTimer'] = async (
         durationMinutes: duration,
     })
 
-    // Sleep for the duration (in milliseconds)
-    // Note: Motia's event infrastructure handles durability
-    const durationMs = duration * 60 * 1000
+    // Revoke when the credential itself expires, so the deadline matches VALID UNTIL
+    const credentials = await state.get<Credentials>('credentials', requestId)
+    const revokeAt = credentials?.expiresAt
+        ?? new Date(Date.now() + duration * 60 * 1000).toISOString()
 
-    logger.info('Timer sleeping...', {
-        requestId,
-        wakeAt: new Date(Date.now() + durationMs).toISOString(),
-    })
-
-    // Use setTimeout wrapped in a Promise for the demo
-    // In production Motia, you might have a dedicated timer/sleep primitive
-    await new Promise((resolve) => setTimeout(resolve, durationMs))
+    // Persisted rather than slept on: RevocationSweeper fires it even after a restart
+    const deadline = await RevocationSchedule.schedule(state, requestId, revokeAt)
 
-    logger.info('Timer expired, triggering revocation', { requestId })
-
-    // Emit revoke event
-    await emit({
-        topic: 'revoke-access',
-        data: {
-            requestId,
-            reason: 'timer_expired',
-        },
+    logger.info('Revocation deadline scheduled', {
+        requestId,
+        revokeAt: deadline.revokeAt,
     })
 }
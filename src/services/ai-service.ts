@@ -35,6 +35,7 @@ export interface ScopeExtractionResult {
     operations: string[]
     maxRows: number
     summary: string
+    columns?: Record<string, string[]>
 }
 
 export class AIService {
@@ -133,6 +134,7 @@ Extract and return JSON with:
 3. operations: Array of SQL operations needed (SELECT, INSERT, UPDATE, DELETE)
 4. maxRows: Maximum rows that should be affected (1 for specific ID, 10 for small batch, 100 for larger)
 5. summary: One-line scope description
+6. columns: Optional object of table -> columns, ONLY when the reason names specific fields (e.g., {"users": ["email"]})
 
 Common mappings:
 - "user #123" or "customer 123" → tables: ["users"], entities: [{type: "user", id: "123"}]
@@ -0,0 +1,68 @@
+import { createHash, createHmac } from 'crypto'
+import { afterEach, describe, expect, it } from 'vitest'
+import { ApproverAuth, SlackAuth, UserAuth } from './api-auth'
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex')
+const bearer = (token: string) => ({ authorization: `Bearer ${token}` })
+
+const env = { ...process.env }
+afterEach(() => {
+    process.env = { ...env }
+})
+
+describe('UserAuth.verify', () => {
+    it('names the user the token belongs to', () => {
+        process.env.GLASSKISS_USER_TOKENS = `jane.doe:${sha256('jane-token')},sre_1:${sha256('sre-token')}`
+
+        expect(UserAuth.verify(bearer('sre-token'))).toEqual({ user: 'sre_1' })
+    })
+
+    it('refuses missing and unknown tokens', () => {
+        process.env.GLASSKISS_USER_TOKENS = `jane.doe:${sha256('jane-token')}`
+
+        expect(UserAuth.verify({})).toMatchObject({ denied: { status: 401 } })
+        expect(UserAuth.verify(bearer('guess'))).toMatchObject({ denied: { status: 403 } })
+    })
+
+    it('is closed when no tokens are configured', () => {
+        delete process.env.GLASSKISS_USER_TOKENS
+
+        expect(UserAuth.verify(bearer('anything'))).toMatchObject({ denied: { status: 503 } })
+    })
+})
+
+describe('ApproverAuth.verify', () => {
+    it('resolves the token to a directory person', () => {
+        process.env.GLASSKISS_APPROVER_TOKENS = `SRE_1:${sha256('sre-token')}`
+
+        expect(ApproverAuth.verify(bearer('sre-token'))).toEqual({ approver: 'sre_1' })
+    })
+
+    it('refuses a valid token for someone outside the directory', () => {
+        process.env.GLASSKISS_APPROVER_TOKENS = `mallory:${sha256('mallory-token')}`
+
+        expect(ApproverAuth.verify(bearer('mallory-token'))).toMatchObject({ denied: { status: 403 } })
+    })
+})
+
+describe('SlackAuth.verify', () => {
+    const sign = (secret: string, timestamp: number, body: string) =>
+        'v0=' + createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex')
+
+    it('accepts a fresh request signed with the signing secret', () => {
+        process.env.SLACK_SIGNING_SECRET = 'secret'
+        const timestamp = Math.floor(Date.now() / 1000)
+        const headers = { 'x-slack-request-timestamp': String(timestamp), 'x-slack-signature': sign('secret', timestamp, 'a=1') }
+
+        expect(SlackAuth.verify(headers, 'a=1')).toBeNull()
+        expect(SlackAuth.verify(headers, 'a=2')).toMatchObject({ status: 401 })
+    })
+
+    it('refuses a stale signature', () => {
+        process.env.SLACK_SIGNING_SECRET = 'secret'
+        const timestamp = Math.floor(Date.now() / 1000) - 10 * 60
+        const headers = { 'x-slack-request-timestamp': String(timestamp), 'x-slack-signature': sign('secret', timestamp, 'a=1') }
+
+        expect(SlackAuth.verify(headers, 'a=1')).toMatchObject({ status: 401, body: { error: 'Stale Slack request' } })
+    })
+})
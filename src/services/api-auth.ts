@@ -0,0 +1,197 @@
+/**
+ * API Auth Service
+ * Who may call the operator, requester and approver endpoints: admins present
+ * the shared GLASSKISS_ADMIN_TOKEN, people filing a request their own token
+ * from GLASSKISS_USER_TOKENS, requesters the token issued with their request,
+ * approvers their own token from GLASSKISS_APPROVER_TOKENS, and Slack
+ * callbacks a signature made with SLACK_SIGNING_SECRET
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { ApproverDirectory } from './approver-directory'
+import { AccessState } from './glasskiss-types'
+
+export interface AuthFailure {
+    status: 401 | 403 | 503
+    body: { error: string }
+}
+
+// Slack signs each request with its timestamp; older ones may be replays
+const SLACK_MAX_AGE_SECONDS = 5 * 60
+
+export class AdminAuth {
+    /**
+     * Check the x-glasskiss-admin-token header
+     * Returns the response to send when the caller is not an admin, else null
+     */
+    static verify(headers: Record<string, string | string[] | undefined>): AuthFailure | null {
+        const expectedToken = process.env.GLASSKISS_ADMIN_TOKEN
+        if (!expectedToken) {
+            return { status: 503, body: { error: 'Admin endpoints not configured' } }
+        }
+
+        const presentedToken = headers['x-glasskiss-admin-token']
+        if (typeof presentedToken !== 'string' || !safeEqual(presentedToken, expectedToken)) {
+            return { status: 403, body: { error: 'Invalid admin token' } }
+        }
+
+        return null
+    }
+}
+
+export class UserAuth {
+    /**
+     * Who is filing a request: Authorization: Bearer <token> matched against
+     * the sha256 hashes in GLASSKISS_USER_TOKENS (user_id:hash, comma separated)
+     * Returns the user's id, or the response to send when unknown
+     */
+    static verify(headers: Record<string, string | string[] | undefined>): { user: string } | { denied: AuthFailure } {
+        const entries = tokenEntries(process.env.GLASSKISS_USER_TOKENS)
+        if (entries.length === 0) {
+            return { denied: { status: 503, body: { error: 'User tokens not configured' } } }
+        }
+
+        const token = bearerToken(headers)
+        if (!token) {
+            return { denied: { status: 401, body: { error: 'User token required' } } }
+        }
+
+        const entry = findToken(entries, token)
+        if (!entry) {
+            return { denied: { status: 403, body: { error: 'Invalid user token' } } }
+        }
+
+        return { user: entry.id }
+    }
+}
+
+export class RequesterAuth {
+    /**
+     * New bearer token for a request; only its hash is kept in state
+     */
+    static issue(): { token: string; tokenHash: string } {
+        const token = randomBytes(32).toString('base64url')
+        return { token, tokenHash: this.hash(token) }
+    }
+
+    /**
+     * Check Authorization: Bearer <token> against the request it was issued for
+     * Returns the response to send when the caller is not the requester, else null
+     */
+    static verify(
+        headers: Record<string, string | string[] | undefined>,
+        requestState: AccessState
+    ): AuthFailure | null {
+        const token = bearerToken(headers)
+        if (!token) {
+            return { status: 401, body: { error: 'Requester token required' } }
+        }
+
+        if (!requestState.requesterTokenHash || !safeEqual(this.hash(token), requestState.requesterTokenHash)) {
+            return { status: 403, body: { error: 'Not the requester of this access request' } }
+        }
+
+        return null
+    }
+
+    private static hash(token: string): string {
+        return createHash('sha256').update(token).digest('hex')
+    }
+}
+
+export class ApproverAuth {
+    /**
+     * Who is calling: Authorization: Bearer <token> matched against the
+     * sha256 hashes in GLASSKISS_APPROVER_TOKENS (approver_id:hash, comma
+     * separated), resolved to a directory person
+     * Returns the approver's id, or the response to send when unknown
+     */
+    static verify(headers: Record<string, string | string[] | undefined>): { approver: string } | { denied: AuthFailure } {
+        const entries = tokenEntries(process.env.GLASSKISS_APPROVER_TOKENS)
+        if (entries.length === 0) {
+            return { denied: { status: 503, body: { error: 'Approver tokens not configured' } } }
+        }
+
+        const token = bearerToken(headers)
+        if (!token) {
+            return { denied: { status: 401, body: { error: 'Approver token required' } } }
+        }
+
+        const entry = findToken(entries, token)
+        const person = entry && ApproverDirectory.get(entry.id)
+        if (!person) {
+            return { denied: { status: 403, body: { error: 'Invalid approver token' } } }
+        }
+
+        return { approver: person.id }
+    }
+}
+
+export class SlackAuth {
+    /**
+     * Check X-Slack-Signature over X-Slack-Request-Timestamp and the raw body
+     * Must run before anything in the body is trusted
+     * Returns the response to send when Slack did not sign the request, else null
+     */
+    static verify(headers: Record<string, string | string[] | undefined>, rawBody: string): AuthFailure | null {
+        const signingSecret = process.env.SLACK_SIGNING_SECRET
+        if (!signingSecret) {
+            return { status: 503, body: { error: 'Slack signing secret not configured' } }
+        }
+
+        const timestamp = headers['x-slack-request-timestamp']
+        const signature = headers['x-slack-signature']
+        if (typeof timestamp !== 'string' || typeof signature !== 'string' || !/^\d+$/.test(timestamp)) {
+            return { status: 401, body: { error: 'Slack signature required' } }
+        }
+
+        if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SLACK_MAX_AGE_SECONDS) {
+            return { status: 401, body: { error: 'Stale Slack request' } }
+        }
+
+        const expected = 'v0=' + createHmac('sha256', signingSecret).update(`v0:${timestamp}:${rawBody}`).digest('hex')
+        if (!safeEqual(signature, expected)) {
+            return { status: 401, body: { error: 'Invalid Slack signature' } }
+        }
+
+        return null
+    }
+}
+
+interface TokenEntry {
+    id: string
+    tokenHash: string
+}
+
+// id:sha256(token) pairs, comma separated
+function tokenEntries(configured: string | undefined): TokenEntry[] {
+    return (configured || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.includes(':'))
+        .map(entry => {
+            const separator = entry.lastIndexOf(':')
+            return {
+                id: entry.slice(0, separator).trim(),
+                tokenHash: entry.slice(separator + 1).trim().toLowerCase(),
+            }
+        })
+        .filter(entry => entry.id)
+}
+
+function bearerToken(headers: Record<string, string | string[] | undefined>): string | null {
+    const authorization = headers['authorization']
+    const match = typeof authorization === 'string' ? authorization.match(/^Bearer\s+(\S+)$/i) : null
+    return match ? match[1] : null
+}
+
+function findToken(entries: TokenEntry[], token: string): TokenEntry | undefined {
+    const presentedHash = createHash('sha256').update(token).digest('hex')
+    return entries.find(candidate => safeEqual(presentedHash, candidate.tokenHash))
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
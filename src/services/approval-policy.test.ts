@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { ApprovalPolicies } from './approval-policy'
+import { ApprovalPolicy } from './glasskiss-types'
+
+// 2 of sre OR 1 of security
+const either: ApprovalPolicy = {
+    rule: { any: [{ group: 'sre', quorum: 2 }, { group: 'security', quorum: 1 }] },
+}
+
+// 1 of tech_leads AND 1 of security
+const both: ApprovalPolicy = {
+    rule: { all: [{ group: 'tech_leads', quorum: 1 }, { group: 'security', quorum: 1 }] },
+}
+
+describe('ApprovalPolicies.isSatisfied', () => {
+    it('needs the quorum of one branch under any', () => {
+        expect(ApprovalPolicies.isSatisfied(either, ['sre_1'])).toBe(false)
+        expect(ApprovalPolicies.isSatisfied(either, ['sre_1', 'sre_2'])).toBe(true)
+        expect(ApprovalPolicies.isSatisfied(either, ['security_eng_1'])).toBe(true)
+    })
+
+    it('needs every branch under all', () => {
+        expect(ApprovalPolicies.isSatisfied(both, ['tech_lead_1'])).toBe(false)
+        expect(ApprovalPolicies.isSatisfied(both, ['tech_lead_1', 'security_eng_2'])).toBe(true)
+    })
+
+    it('does not count approvals from outside the groups', () => {
+        expect(ApprovalPolicies.isSatisfied(both, ['tech_lead_1', 'sre_1', 'sre_2'])).toBe(false)
+    })
+
+    it('counts each approver toward only one branch of all', () => {
+        const twoOfSreTwice: ApprovalPolicy = {
+            rule: { all: [{ group: 'sre', quorum: 2 }, { group: 'sre', quorum: 1 }] },
+        }
+
+        expect(ApprovalPolicies.isSatisfied(twoOfSreTwice, ['sre_1', 'sre_2'])).toBe(false)
+        expect(ApprovalPolicies.isSatisfied(twoOfSreTwice, ['sre_1', 'sre_2', 'sre_3'])).toBe(true)
+    })
+
+    it('treats a plain approver list as any quorum of them', () => {
+        const policy = ApprovalPolicies.fromApprovers(['sre_1', 'sre_2', 'tech_lead_1'], 2)
+
+        expect(ApprovalPolicies.isSatisfied(policy, ['sre_1'])).toBe(false)
+        expect(ApprovalPolicies.isSatisfied(policy, ['sre_1', 'tech_lead_1'])).toBe(true)
+    })
+})
+
+describe('ApprovalPolicies.eligible', () => {
+    it('leaves out the requester and forbidden pairings', () => {
+        const policy: ApprovalPolicy = {
+            ...either,
+            forbiddenPairings: [{ requester: 'sre_3', approver: 'group:security' }],
+        }
+
+        expect(ApprovalPolicies.eligible(policy, 'sre_3').sort()).toEqual(['sre_1', 'sre_2'])
+        expect(ApprovalPolicies.forbiddenPairing(policy, 'sre_3', 'security_eng_1')).toBeDefined()
+        expect(ApprovalPolicies.forbiddenPairing(policy, 'sre_1', 'security_eng_1')).toBeUndefined()
+    })
+})
+
+describe('ApprovalPolicies.minimumApprovals', () => {
+    it('is the smallest set that satisfies the policy', () => {
+        expect(ApprovalPolicies.minimumApprovals(either, 'jane.doe')).toBe(1)
+        expect(ApprovalPolicies.minimumApprovals(both, 'jane.doe')).toBe(2)
+    })
+
+    it('is null when the requester is the only one who could approve', () => {
+        const policy: ApprovalPolicy = { rule: { group: 'tech_leads', quorum: 1 } }
+
+        expect(ApprovalPolicies.minimumApprovals(policy, 'tech_lead_1')).toBeNull()
+    })
+})
+
+describe('ApprovalPolicies.describe', () => {
+    it('reads like the policy', () => {
+        expect(ApprovalPolicies.describe(either.rule)).toBe('2 of sre OR 1 of security')
+        expect(ApprovalPolicies.describe({ all: [{ group: 'tech_leads', quorum: 1 }, either.rule] }))
+            .toBe('1 of tech_leads AND (2 of sre OR 1 of security)')
+    })
+})
@@ -0,0 +1,145 @@
+/**
+ * Approval Policy Service
+ * Evaluates M-of-N approval policies such as "2 of sre OR 1 of security".
+ * Under all (AND) every branch needs its own approvers, so one person in two
+ * groups cannot satisfy both.
+ */
+
+import { ApproverDirectory } from './approver-directory'
+import { ApprovalPolicy, ApprovalRule, ForbiddenPairing } from './glasskiss-types'
+
+// Stop enumerating ways to satisfy a rule past this many
+const MAX_OPTIONS = 1000
+
+const identity = (name: string) => name.trim().toLowerCase()
+
+export class ApprovalPolicies {
+    /**
+     * A rule's group names a directory group, role:<role> or oncall:<group>
+     */
+    static members(group: string): string[] {
+        return ApproverDirectory.members(group)
+    }
+
+    /**
+     * Policy for a plain approver list: any requiredApprovals of them
+     */
+    static fromApprovers(approvers: string[], requiredApprovals: number): ApprovalPolicy {
+        return { rule: { users: approvers, quorum: Math.max(1, Math.min(requiredApprovals, approvers.length)) } }
+    }
+
+    /**
+     * Everyone the policy could accept an approval from for this requester
+     */
+    static eligible(policy: ApprovalPolicy, requester: string): string[] {
+        const everyone = [...new Set(this.candidates(policy.rule))]
+        return everyone.filter(approver =>
+            identity(approver) !== identity(requester) && !this.forbiddenPairing(policy, requester, approver)
+        )
+    }
+
+    /**
+     * The pairing that bars this approver from approving for this requester, if any
+     */
+    static forbiddenPairing(policy: ApprovalPolicy, requester: string, approver: string): ForbiddenPairing | undefined {
+        return policy.forbiddenPairings?.find(pairing =>
+            this.matches(pairing.requester, requester) && this.matches(pairing.approver, approver)
+        )
+    }
+
+    static isSatisfied(policy: ApprovalPolicy, approvedBy: string[]): boolean {
+        return this.options(policy.rule, approvedBy).length > 0
+    }
+
+    /**
+     * Fewest approvals that can satisfy the policy for this requester, or
+     * null when the eligible approvers cannot satisfy it at all
+     */
+    static minimumApprovals(policy: ApprovalPolicy, requester: string): number | null {
+        const options = this.options(policy.rule, this.eligible(policy, requester))
+        return options.length > 0 ? Math.min(...options.map(option => option.length)) : null
+    }
+
+    /**
+     * Human-readable form, e.g. "2 of sre OR 1 of security"
+     */
+    static describe(rule: ApprovalRule): string {
+        if ('group' in rule) {
+            return `${rule.quorum} of ${rule.group}`
+        }
+        if ('users' in rule) {
+            return `${rule.quorum} of ${rule.users.join(', ')}`
+        }
+
+        const [children, operator] = 'all' in rule ? [rule.all, ' AND '] : [rule.any, ' OR ']
+        return children
+            .map(child => ('all' in child || 'any' in child) && children.length > 1
+                ? `(${this.describe(child)})`
+                : this.describe(child))
+            .join(operator)
+    }
+
+    // A side of a pairing: a username or group:<name>
+    private static matches(selector: string, user: string): boolean {
+        if (selector.startsWith('group:')) {
+            return this.members(selector.slice('group:'.length)).some(member => identity(member) === identity(user))
+        }
+        return identity(selector) === identity(user)
+    }
+
+    private static candidates(rule: ApprovalRule): string[] {
+        if ('group' in rule) return this.members(rule.group)
+        if ('users' in rule) return ApproverDirectory.withDelegates(rule.users)
+        return ('all' in rule ? rule.all : rule.any).flatMap(child => this.candidates(child))
+    }
+
+    /**
+     * Every minimal set of the available approvers that satisfies the rule
+     */
+    private static options(rule: ApprovalRule, available: string[]): string[][] {
+        if ('group' in rule || 'users' in rule) {
+            const pool = 'group' in rule ? this.members(rule.group) : ApproverDirectory.withDelegates(rule.users)
+            const eligible = available.filter(approver => pool.some(member => identity(member) === identity(approver)))
+            return combinations(eligible, rule.quorum)
+        }
+
+        if ('any' in rule) {
+            return rule.any.flatMap(child => this.options(child, available)).slice(0, MAX_OPTIONS)
+        }
+
+        // all: extend each partial assignment with approvers nobody has used yet
+        let partials: string[][] = [[]]
+        for (const child of rule.all) {
+            const next: string[][] = []
+            for (const partial of partials) {
+                const remaining = available.filter(approver => !partial.includes(approver))
+                for (const option of this.options(child, remaining)) {
+                    next.push([...partial, ...option])
+                    if (next.length >= MAX_OPTIONS) break
+                }
+            }
+            partials = next
+            if (partials.length === 0) break
+        }
+        return partials
+    }
+}
+
+function combinations(items: string[], size: number): string[][] {
+    if (size <= 0) return [[]]
+    if (items.length < size) return []
+
+    const result: string[][] = []
+    const pick = (start: number, chosen: string[]) => {
+        if (result.length >= MAX_OPTIONS) return
+        if (chosen.length === size) {
+            result.push(chosen)
+            return
+        }
+        for (let i = start; i <= items.length - (size - chosen.length); i++) {
+            pick(i + 1, [...chosen, items[i]])
+        }
+    }
+    pick(0, [])
+    return result
+}
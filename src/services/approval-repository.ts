@@ -0,0 +1,283 @@
+/**
+ * Approval Repository Service
+ * The one place approvals are read and decided, for every channel (HTTP,
+ * Slack, ...). Records live in the 'approvals' state group keyed by request
+ * and are mirrored to the approvalRequest stream for the UI. Approvals are a
+ * set of distinct identities; each decision reads and writes the record and
+ * its request under the request's lock (the same one every status change
+ * takes), so votes arriving together on different channels all count
+ * toward the same quorum, once.
+ */
+
+import { FlowContext } from 'motia'
+import { ApprovalPolicies } from './approval-policy'
+import { ApprovalSlas } from './approval-sla'
+import { ApproverDirectory } from './approver-directory'
+import { AccessState, ApprovalRequest } from './glasskiss-types'
+import { RequestStateMachine } from './request-state-machine'
+
+type ApprovalContext = Pick<FlowContext, 'state' | 'streams'>
+
+const APPROVAL_GROUP = 'approvals'
+const STREAM_GROUP = 'approvals'
+
+export type ApprovalOutcome =
+    | 'request_not_found'
+    | 'approval_not_found'
+    | 'not_pending'
+    | 'not_authorized'
+    | 'self_approval'
+    | 'forbidden_pairing'
+    | 'already_approved'
+    | 'recorded'
+    | 'approved'
+    | 'rejected'
+    | 'cancelled'
+    | 'not_due'
+    | 'reminded'
+    | 'escalated'
+    | 'expired'
+
+const SLA_OUTCOMES = {
+    reminder: 'reminded',
+    escalation: 'escalated',
+    expiry: 'expired',
+} as const
+
+export interface ApprovalDecision {
+    outcome: ApprovalOutcome
+    approval?: ApprovalRequest
+    requestState?: AccessState
+}
+
+export class ApprovalRepository {
+    /**
+     * Store a new approval record, unless its request stopped waiting for
+     * approval (was cancelled, say) before the record could be made
+     */
+    static async create(ctx: ApprovalContext, approval: ApprovalRequest): Promise<boolean> {
+        const { state } = ctx
+
+        return RequestStateMachine.withRequest(state, approval.requestId, async () => {
+            const requestState = await state.get<AccessState>('access-requests', approval.requestId)
+            if (requestState?.status !== 'pending_approval') {
+                return false
+            }
+
+            await this.save(ctx, approval)
+            return true
+        })
+    }
+
+    /**
+     * Approval record for a request; records created before the repository
+     * existed are only in the stream and are adopted from there
+     */
+    static async get({ state, streams }: ApprovalContext, requestId: string): Promise<ApprovalRequest | null> {
+        const approval = await state.get<ApprovalRequest>(APPROVAL_GROUP, requestId)
+            ?? (await streams.approvalRequest.getGroup(STREAM_GROUP)).find((a) => a.requestId === requestId) as ApprovalRequest | undefined
+        if (!approval) {
+            return null
+        }
+
+        // Older records counted approvals without saying whose they were
+        return { ...approval, approvedBy: approval.approvedBy ?? [], version: approval.version ?? 0 }
+    }
+
+    /**
+     * Every approval still waiting for a decision, including records only in the stream
+     */
+    static async pending({ state, streams }: ApprovalContext): Promise<ApprovalRequest[]> {
+        const stored = await state.getGroup<ApprovalRequest>(APPROVAL_GROUP)
+        const legacy = (await streams.approvalRequest.getGroup(STREAM_GROUP))
+            .filter((a) => !stored.some((s) => s.requestId === a.requestId)) as ApprovalRequest[]
+
+        return [...stored, ...legacy]
+            .filter((a) => a.status === 'pending')
+            .map((a) => ({ ...a, approvedBy: a.approvedBy ?? [], version: a.version ?? 0 }))
+    }
+
+    /**
+     * Approver identities are compared without case or surrounding space
+     */
+    static isSameIdentity(a: string, b: string): boolean {
+        return a.trim().toLowerCase() === b.trim().toLowerCase()
+    }
+
+    /**
+     * Count an approver's approval; outcome 'approved' means the policy (or,
+     * without one, the approval count) was just satisfied and the request
+     * moved to approved
+     */
+    static async approve(ctx: ApprovalContext, requestId: string, approver: string): Promise<ApprovalDecision> {
+        approver = approver.trim()
+        return this.decide(ctx, requestId, approver, (approval, requestState) => {
+            // Nobody approves their own request, and each approver counts once
+            if (this.isSameIdentity(approver, requestState.requester)) {
+                return { outcome: 'self_approval' }
+            }
+            if (approval.policy && ApprovalPolicies.forbiddenPairing(approval.policy, requestState.requester, approver)) {
+                return { outcome: 'forbidden_pairing' }
+            }
+            if (approval.approvedBy.some((a) => this.isSameIdentity(a, approver))) {
+                return { outcome: 'already_approved' }
+            }
+
+            const approvedBy = [...approval.approvedBy, approver]
+            const currentApprovals = approvedBy.length
+            const approvers = [...requestState.approvers, approver]
+            const satisfied = approval.policy
+                ? ApprovalPolicies.isSatisfied(approval.policy, approvedBy)
+                : currentApprovals >= approval.requiredApprovals
+
+            if (!satisfied) {
+                return {
+                    outcome: 'recorded',
+                    approval: { ...approval, approvedBy, currentApprovals },
+                    requestState: { ...requestState, approvers },
+                }
+            }
+
+            const result = RequestStateMachine.apply(requestState, 'approved', {
+                actor: approver,
+                reason: approval.policy
+                    ? `Policy satisfied: ${ApprovalPolicies.describe(approval.policy.rule)}`
+                    : `${currentApprovals}/${approval.requiredApprovals} approvals`,
+                changes: { approvers, approvedAt: new Date().toISOString() },
+            })
+
+            return {
+                outcome: 'approved',
+                approval: { ...approval, approvedBy, currentApprovals, status: 'approved' },
+                requestState: result.requestState!,
+            }
+        })
+    }
+
+    /**
+     * Reject the request; one rejection from an authorized approver is final
+     */
+    static async reject(
+        ctx: ApprovalContext,
+        requestId: string,
+        approver: string,
+        reason?: string
+    ): Promise<ApprovalDecision> {
+        return this.decide(ctx, requestId, approver, (approval, requestState) => {
+            const result = RequestStateMachine.apply(requestState, 'rejected', { actor: approver, reason })
+
+            return {
+                outcome: 'rejected',
+                approval: { ...approval, status: 'rejected' },
+                requestState: result.requestState!,
+            }
+        })
+    }
+
+    /**
+     * Withdraw a request that has not been granted yet, closing its approval
+     * record (if it has one) in the same locked write
+     */
+    static async cancel(ctx: ApprovalContext, requestId: string, actor: string, reason?: string): Promise<ApprovalDecision> {
+        const { state } = ctx
+
+        return RequestStateMachine.withRequest(state, requestId, async () => {
+            const requestState = await state.get<AccessState>('access-requests', requestId)
+            if (!requestState) {
+                return { outcome: 'request_not_found' }
+            }
+
+            if (requestState.status !== 'pending_risk' && requestState.status !== 'pending_approval') {
+                return { outcome: 'not_pending', requestState }
+            }
+
+            const result = RequestStateMachine.apply(requestState, 'cancelled', { actor, reason })
+            let approval = await this.get(ctx, requestId) ?? undefined
+            if (approval?.status === 'pending') {
+                approval = { ...approval, status: 'cancelled', version: approval.version + 1 }
+                await this.save(ctx, approval)
+            }
+
+            await state.set('access-requests', requestId, result.requestState)
+            return { outcome: 'cancelled', approval, requestState: result.requestState! }
+        })
+    }
+
+    /**
+     * Take the approval SLA step that is due, if any: outcome 'reminded',
+     * 'escalated' or 'expired', with the new event last in slaEvents
+     */
+    static async advanceSla(ctx: ApprovalContext, requestId: string, now: Date = new Date()): Promise<ApprovalDecision> {
+        return this.update(ctx, requestId, (approval, requestState) => {
+            const advance = ApprovalSlas.advance(approval, requestState, now)
+            if (!advance) {
+                return { outcome: 'not_due' }
+            }
+
+            return {
+                outcome: SLA_OUTCOMES[advance.event.step],
+                approval: advance.approval,
+                requestState: advance.requestState,
+            }
+        })
+    }
+
+    private static async decide(
+        ctx: ApprovalContext,
+        requestId: string,
+        approver: string,
+        apply: (approval: ApprovalRequest, requestState: AccessState) => ApprovalDecision
+    ): Promise<ApprovalDecision> {
+        return this.update(ctx, requestId, (approval, requestState) => {
+            // Whoever stands in for an approver who has since gone out of office may act too
+            if (!ApproverDirectory.withDelegates(approval.approvers).some((a) => this.isSameIdentity(a, approver))) {
+                return { outcome: 'not_authorized' }
+            }
+
+            return apply(approval, requestState)
+        })
+    }
+
+    /**
+     * Read-modify-write of a pending approval and its request, under the
+     * request's lock
+     */
+    private static async update(
+        ctx: ApprovalContext,
+        requestId: string,
+        apply: (approval: ApprovalRequest, requestState: AccessState) => ApprovalDecision
+    ): Promise<ApprovalDecision> {
+        const { state } = ctx
+
+        return RequestStateMachine.withRequest(state, requestId, async () => {
+            const requestState = await state.get<AccessState>('access-requests', requestId)
+            if (!requestState) {
+                return { outcome: 'request_not_found' }
+            }
+
+            const approval = await this.get(ctx, requestId)
+            if (!approval) {
+                return { outcome: 'approval_not_found', requestState }
+            }
+
+            if (approval.status !== 'pending' || requestState.status !== 'pending_approval') {
+                return { outcome: 'not_pending', approval, requestState }
+            }
+
+            const decision = apply(approval, requestState)
+            if (!decision.approval || !decision.requestState) {
+                return { ...decision, approval, requestState }
+            }
+
+            const saved = { ...decision.approval, version: approval.version + 1 }
+            await this.save(ctx, saved)
+            await state.set('access-requests', requestId, decision.requestState)
+            return { ...decision, approval: saved }
+        })
+    }
+
+    private static async save({ state, streams }: ApprovalContext, approval: ApprovalRequest): Promise<void> {
+        await state.set(APPROVAL_GROUP, approval.requestId, approval)
+        await streams.approvalRequest.set(STREAM_GROUP, approval.id, approval)
+    }
+}
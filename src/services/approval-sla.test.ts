@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { ApprovalSlas } from './approval-sla'
+import { AccessState, ApprovalRequest } from './glasskiss-types'
+
+const at = (minutes: number) => new Date(Date.UTC(2025, 11, 24, 12, minutes))
+
+const approval = (overrides: Partial<ApprovalRequest> = {}): ApprovalRequest => ({
+    id: 'appr-1',
+    requestId: 'req-1',
+    requester: 'jane.doe',
+    resource: 'production-db',
+    accessLevel: 'READ_WRITE',
+    reason: 'Fix billing for user #123',
+    riskScore: 50,
+    status: 'pending',
+    approvers: ['tech_lead_1', 'vp_engineering_1'],
+    requiredApprovals: 1,
+    currentApprovals: 0,
+    approvedBy: [],
+    version: 0,
+    sla: {
+        remindAt: at(15).toISOString(),
+        escalateAt: at(30).toISOString(),
+        expireAt: at(60).toISOString(),
+        escalateTo: 'oncall:security',
+    },
+    slaEvents: [],
+    timestamp: at(0).toISOString(),
+    ...overrides,
+})
+
+const request = (overrides: Partial<AccessState> = {}): AccessState => ({
+    id: 'req-1',
+    requester: 'jane.doe',
+    resource: 'production-db',
+    accessLevel: 'READ_WRITE',
+    reason: 'Fix billing for user #123',
+    duration: 30,
+    riskScore: 50,
+    status: 'pending_approval',
+    approvers: [],
+    requiredApprovals: 1,
+    createdAt: at(0).toISOString(),
+    ...overrides,
+})
+
+describe('ApprovalSlas.dueStep', () => {
+    it('waits until the reminder is due', () => {
+        expect(ApprovalSlas.dueStep(approval(), at(10))).toBeNull()
+        expect(ApprovalSlas.dueStep(approval(), at(15))).toBe('reminder')
+    })
+
+    it('takes each step once and in order', () => {
+        const reminded = approval({ slaEvents: [{ step: 'reminder', at: at(15).toISOString(), notified: [] }] })
+
+        expect(ApprovalSlas.dueStep(reminded, at(20))).toBeNull()
+        expect(ApprovalSlas.dueStep(reminded, at(30))).toBe('escalation')
+    })
+
+    it('skips straight to the latest deadline that passed', () => {
+        expect(ApprovalSlas.dueStep(approval(), at(45))).toBe('escalation')
+        expect(ApprovalSlas.dueStep(approval(), at(90))).toBe('expiry')
+    })
+
+    it('does nothing for an approval that is no longer pending', () => {
+        expect(ApprovalSlas.dueStep(approval({ status: 'cancelled' }), at(90))).toBeNull()
+    })
+})
+
+describe('ApprovalSlas.advance', () => {
+    it('records the reminder on the approval and the request', () => {
+        const advance = ApprovalSlas.advance(approval(), request(), at(15))!
+
+        expect(advance.event.step).toBe('reminder')
+        expect(advance.approval.slaEvents).toEqual([advance.event])
+        expect(advance.requestState.approvalSlaEvents).toEqual([advance.event])
+        expect(advance.requestState.status).toBe('pending_approval')
+    })
+
+    it('pings the delegate of an approver who went out of office', () => {
+        // vp_engineering_1 is away over the holidays; security_eng_1 stands in
+        const advance = ApprovalSlas.advance(approval(), request(), at(15))!
+
+        expect(advance.event.notified.sort()).toEqual(['security_eng_1', 'tech_lead_1'])
+    })
+
+    it('does not ping a delegate who is the requester', () => {
+        const advance = ApprovalSlas.advance(
+            approval({ requester: 'security_eng_1' }),
+            request({ requester: 'security_eng_1' }),
+            at(15)
+        )!
+
+        expect(advance.event.notified).toEqual(['tech_lead_1'])
+    })
+
+    it('widens the policy so one approval from the escalation tier is enough', () => {
+        const advance = ApprovalSlas.advance(approval(), request(), at(30))!
+
+        expect(advance.event.step).toBe('escalation')
+        expect(advance.approval.policy).toBeDefined()
+        expect(advance.approval.approvers.length).toBeGreaterThan(2)
+        expect(advance.approval.requiredApprovals).toBe(1)
+    })
+
+    it('expires the request at the deadline', () => {
+        const advance = ApprovalSlas.advance(approval(), request(), at(60))!
+
+        expect(advance.event.step).toBe('expiry')
+        expect(advance.approval.status).toBe('expired')
+        expect(advance.requestState.status).toBe('expired')
+        expect(advance.requestState.statusHistory!.slice(-1)[0]).toMatchObject({ to: 'expired', actor: 'approval-sla' })
+    })
+
+    it('does not expire a request that already left pending_approval', () => {
+        expect(ApprovalSlas.advance(approval(), request({ status: 'cancelled' }), at(60))).toBeNull()
+    })
+})
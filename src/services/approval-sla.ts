@@ -0,0 +1,152 @@
+/**
+ * Approval SLA Service
+ * Deadlines for a pending approval and the follow-up each one triggers:
+ * re-ping the approvers, escalate to the next tier, then expire the request.
+ * Every step taken is appended to slaEvents on the approval record and
+ * approvalSlaEvents on the request.
+ */
+
+import { ApprovalPolicies } from './approval-policy'
+import { ApproverDirectory } from './approver-directory'
+import { AccessState, ApprovalPolicy, ApprovalRequest, ApprovalSla, ApprovalSlaEvent } from './glasskiss-types'
+import { RequestStateMachine } from './request-state-machine'
+import { ResourceRegistry } from './resource-registry'
+
+export type ApprovalSlaStep = ApprovalSlaEvent['step']
+
+export interface ApprovalSlaAdvance {
+    event: ApprovalSlaEvent
+    approval: ApprovalRequest
+    requestState: AccessState
+}
+
+const minutesAfter = (from: Date, minutes: number) =>
+    new Date(from.getTime() + minutes * 60 * 1000).toISOString()
+
+export class ApprovalSlas {
+    static schedule(resource: string, riskScore: number, from: Date = new Date()): ApprovalSla {
+        const config = ResourceRegistry.approvalSlaFor(resource, riskScore)
+        return {
+            remindAt: minutesAfter(from, config.remindAfterMinutes),
+            escalateAt: minutesAfter(from, config.escalateAfterMinutes),
+            expireAt: minutesAfter(from, config.expireAfterMinutes),
+            escalateTo: config.escalateTo,
+        }
+    }
+
+    /**
+     * The record's deadlines; records created before SLAs existed get them
+     * from when they were created
+     */
+    static of(approval: ApprovalRequest): ApprovalSla {
+        return approval.sla ?? this.schedule(approval.resource, approval.riskScore, new Date(approval.timestamp))
+    }
+
+    /**
+     * The step that is due now, if any. Steps run once each and in order;
+     * a step overtaken by a later deadline is skipped
+     */
+    static dueStep(approval: ApprovalRequest, now: Date = new Date()): ApprovalSlaStep | null {
+        if (approval.status !== 'pending') {
+            return null
+        }
+
+        const sla = this.of(approval)
+        const taken = new Set((approval.slaEvents ?? []).map(event => event.step))
+
+        if (now >= new Date(sla.expireAt)) return 'expiry'
+        if (taken.has('escalation')) return null
+        if (now >= new Date(sla.escalateAt)) return 'escalation'
+        if (taken.has('reminder')) return null
+        if (now >= new Date(sla.remindAt)) return 'reminder'
+        return null
+    }
+
+    /**
+     * Apply the due step to the approval and its request, or null when
+     * nothing is due or the request can no longer expire
+     */
+    static advance(
+        approval: ApprovalRequest,
+        requestState: AccessState,
+        now: Date = new Date()
+    ): ApprovalSlaAdvance | null {
+        const step = this.dueStep(approval, now)
+        if (!step) {
+            return null
+        }
+
+        const sla = this.of(approval)
+        const at = now.toISOString()
+        const record = (event: ApprovalSlaEvent, next: ApprovalRequest, request: AccessState): ApprovalSlaAdvance => ({
+            event,
+            approval: { ...next, sla, slaEvents: [...(approval.slaEvents ?? []), event] },
+            requestState: { ...request, approvalSlaEvents: [...(request.approvalSlaEvents ?? []), event] },
+        })
+
+        if (step === 'reminder') {
+            return record(
+                { step, at, notified: this.contacts(approval.approvers, approval, requestState, now), details: `No decision yet; escalates at ${sla.escalateAt}` },
+                approval,
+                requestState
+            )
+        }
+
+        if (step === 'escalation') {
+            // Pin the tier as it is now, so an on-call handover does not
+            // take the escalation away from whoever was pinged
+            const policy = approval.policy ?? ApprovalPolicies.fromApprovers(approval.approvers, approval.requiredApprovals)
+            const tier = ApprovalPolicies.eligible(
+                { rule: { users: ApproverDirectory.members(sla.escalateTo, now), quorum: 1 }, forbiddenPairings: policy.forbiddenPairings },
+                requestState.requester
+            )
+            if (tier.length === 0) {
+                return record(
+                    { step, at, notified: this.contacts(approval.approvers, approval, requestState, now), details: `Nobody eligible in ${sla.escalateTo}; approvers re-pinged` },
+                    approval,
+                    requestState
+                )
+            }
+
+            const escalated = this.escalate(policy, tier)
+            const approvers = [...new Set([...approval.approvers, ...tier])]
+            const requiredApprovals = ApprovalPolicies.minimumApprovals(escalated, requestState.requester) ?? approval.requiredApprovals
+            return record(
+                { step, at, notified: this.contacts(tier, approval, requestState, now), details: `Escalated to ${sla.escalateTo}; one approval from ${tier.join(', ')} is now enough` },
+                { ...approval, policy: escalated, approvers, requiredApprovals },
+                { ...requestState, requiredApprovals }
+            )
+        }
+
+        const result = RequestStateMachine.apply(requestState, 'expired', {
+            actor: 'approval-sla',
+            reason: `No approval decision by ${sla.expireAt}`,
+        })
+        if (!result.ok) {
+            return null
+        }
+
+        return record(
+            { step, at, notified: this.contacts(approval.approvers, approval, requestState, now), details: `No approval decision by ${sla.expireAt}` },
+            { ...approval, status: 'expired' },
+            result.requestState!
+        )
+    }
+
+    /**
+     * The policy widened so that a single approval from the tier is enough
+     */
+    static escalate(policy: ApprovalPolicy, tier: string[]): ApprovalPolicy {
+        return { ...policy, rule: { any: [policy.rule, { users: tier, quorum: 1 }] } }
+    }
+
+    // Who to ping: approvers out of office now are replaced by their delegates,
+    // unless the delegate could not approve this request anyway
+    private static contacts(ids: string[], approval: ApprovalRequest, requestState: AccessState, now: Date): string[] {
+        const { requester } = requestState
+        return ApproverDirectory.available(ids, now).filter(id =>
+            id.trim().toLowerCase() !== requester.trim().toLowerCase()
+            && !(approval.policy && ApprovalPolicies.forbiddenPairing(approval.policy, requester, id))
+        )
+    }
+}
@@ -0,0 +1,140 @@
+/**
+ * Approver Directory Service
+ * Everyone who can approve access: roles, groups, Slack user IDs, on-call
+ * rotations and out-of-office delegation. Approval policies name groups
+ * ("sre"), roles ("role:security_engineer") or the current on-call of a group
+ * ("oncall:sre"); approvals from Slack are mapped to a person by Slack user ID.
+ */
+
+export interface OutOfOffice {
+    from: string        // ISO timestamps
+    until: string
+    delegate: string    // person who approves in their place meanwhile
+}
+
+export interface DirectoryPerson {
+    id: string          // identity used in policies, approvals and audit
+    name: string
+    roles: string[]
+    groups: string[]
+    slackUserId?: string
+    outOfOffice?: OutOfOffice[]
+}
+
+export interface OnCallRotation {
+    group: string
+    members: string[]   // in rotation order
+    startsAt: string    // start of the first member's first shift
+    shiftHours: number
+}
+
+const PEOPLE: DirectoryPerson[] = [
+    { id: 'senior_dev_1', name: 'Senior Developer', roles: ['senior_engineer'], groups: ['senior_devs'], slackUserId: 'U0SENIORDEV1' },
+    { id: 'tech_lead_1', name: 'Tech Lead', roles: ['tech_lead'], groups: ['tech_leads'], slackUserId: 'U0TECHLEAD1' },
+    {
+        id: 'vp_engineering_1',
+        name: 'VP Engineering',
+        roles: ['vp_engineering'],
+        groups: ['engineering_vps'],
+        slackUserId: 'U0VPENG1',
+        outOfOffice: [{ from: '2025-12-22T00:00:00Z', until: '2026-01-05T00:00:00Z', delegate: 'security_eng_1' }],
+    },
+    { id: 'data_lead_1', name: 'Data Lead', roles: ['tech_lead'], groups: ['data_leads'], slackUserId: 'U0DATALEAD1' },
+    { id: 'sre_1', name: 'SRE One', roles: ['sre'], groups: ['sre'], slackUserId: 'U0SRE1' },
+    { id: 'sre_2', name: 'SRE Two', roles: ['sre'], groups: ['sre'], slackUserId: 'U0SRE2' },
+    { id: 'sre_3', name: 'SRE Three', roles: ['sre'], groups: ['sre'], slackUserId: 'U0SRE3' },
+    { id: 'security_eng_1', name: 'Security Engineer One', roles: ['security_engineer'], groups: ['security'], slackUserId: 'U0SECENG1' },
+    { id: 'security_eng_2', name: 'Security Engineer Two', roles: ['security_engineer'], groups: ['security'], slackUserId: 'U0SECENG2' },
+]
+
+const ON_CALL_ROTATIONS: OnCallRotation[] = [
+    { group: 'sre', members: ['sre_1', 'sre_2', 'sre_3'], startsAt: '2025-01-06T09:00:00Z', shiftHours: 168 },
+    { group: 'security', members: ['security_eng_1', 'security_eng_2'], startsAt: '2025-01-06T09:00:00Z', shiftHours: 168 },
+]
+
+const identity = (name: string) => name.trim().toLowerCase()
+
+export class ApproverDirectory {
+    static get(id: string): DirectoryPerson | undefined {
+        return PEOPLE.find(person => identity(person.id) === identity(id))
+    }
+
+    static bySlackId(slackUserId: string): DirectoryPerson | undefined {
+        return PEOPLE.find(person => person.slackUserId === slackUserId)
+    }
+
+    static list(): DirectoryPerson[] {
+        return [...PEOPLE]
+    }
+
+    /**
+     * Who a selector names: a group, role:<role> or oncall:<group>
+     * Out-of-office people stay in (their approval still counts) and their
+     * delegates are added
+     */
+    static members(selector: string, at: Date = new Date()): string[] {
+        let ids: string[]
+        if (selector.startsWith('oncall:')) {
+            const onCall = this.onCall(selector.slice('oncall:'.length), at)
+            ids = onCall ? [onCall] : []
+        } else if (selector.startsWith('role:')) {
+            const role = selector.slice('role:'.length)
+            ids = PEOPLE.filter(person => person.roles.includes(role)).map(person => person.id)
+        } else {
+            ids = PEOPLE.filter(person => person.groups.includes(selector)).map(person => person.id)
+        }
+        return this.withDelegates(ids, at)
+    }
+
+    /**
+     * The ids plus whoever stands in for those of them who are out of office
+     */
+    static withDelegates(ids: string[], at: Date = new Date()): string[] {
+        const result = [...ids]
+        for (const id of ids) {
+            const delegate = this.delegateFor(id, at)
+            if (delegate && !result.some(existing => identity(existing) === identity(delegate))) {
+                result.push(delegate)
+            }
+        }
+        return result
+    }
+
+    /**
+     * The ids to actually contact: out-of-office people replaced by their delegates
+     */
+    static available(ids: string[], at: Date = new Date()): string[] {
+        return [...new Set(ids.map(id => this.delegateFor(id, at) ?? id))]
+    }
+
+    /**
+     * Current on-call of a group's rotation; their delegate when they are away
+     */
+    static onCall(group: string, at: Date = new Date()): string | undefined {
+        const rotation = ON_CALL_ROTATIONS.find(r => r.group === group)
+        if (!rotation || rotation.members.length === 0) {
+            return undefined
+        }
+
+        const elapsed = at.getTime() - new Date(rotation.startsAt).getTime()
+        const shift = Math.floor(elapsed / (rotation.shiftHours * 60 * 60 * 1000))
+        const index = ((shift % rotation.members.length) + rotation.members.length) % rotation.members.length
+        const member = rotation.members[index]
+        return this.delegateFor(member, at) ?? member
+    }
+
+    /**
+     * Slack mention for a person, or their id when they have no Slack user
+     */
+    static mention(id: string): string {
+        const slackUserId = this.get(id)?.slackUserId
+        return slackUserId ? `<@${slackUserId}>` : id
+    }
+
+    private static delegateFor(id: string, at: Date): string | undefined {
+        const absence = this.get(id)?.outOfOffice?.find(ooo =>
+            new Date(ooo.from) <= at && at < new Date(ooo.until)
+        )
+        return absence?.delegate
+    }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { BlastRadiusController } from './blast-radius-controller'
+import { SqlParser } from './sql-parser'
+
+const controller = new BlastRadiusController({ maxRowsAffected: 100 })
+
+describe('BlastRadiusController.checkCommand', () => {
+    it('allows a scoped read', () => {
+        expect(controller.checkCommand('SELECT * FROM users WHERE id = 1').allowed).toBe(true)
+    })
+
+    it('allows a SELECT ... FOR UPDATE', () => {
+        expect(controller.checkCommand('SELECT * FROM users WHERE id = 1 FOR UPDATE').allowed).toBe(true)
+    })
+
+    it('blocks DELETE and UPDATE without WHERE', () => {
+        expect(controller.checkCommand('DELETE FROM users').allowed).toBe(false)
+        expect(controller.checkCommand("UPDATE users SET name = 'x'").allowed).toBe(false)
+    })
+
+    it('blocks every statement of a batch, not just the first', () => {
+        const result = controller.checkCommand('SELECT 1; DROP TABLE users')
+
+        expect(result.allowed).toBe(false)
+        expect(result.severity).toBe('critical')
+    })
+
+    it('blocks a blocked table hidden behind a CTE of the same name', () => {
+        const result = controller.checkCommand('WITH migrations AS (SELECT * FROM migrations) SELECT * FROM migrations')
+
+        expect(result.allowed).toBe(false)
+        expect(result.violationType).toBe('table_blocked')
+    })
+
+    it('blocks functions outside the allow-list', () => {
+        expect(controller.checkCommand("SELECT set_config('role', 'admin', false)").allowed).toBe(false)
+        expect(controller.checkCommand('SELECT count(*) FROM users').allowed).toBe(true)
+    })
+
+    describe('LIMIT', () => {
+        it('allows a literal LIMIT within the maximum', () => {
+            expect(controller.checkCommand('SELECT * FROM users LIMIT 10').allowed).toBe(true)
+        })
+
+        it('blocks a literal LIMIT above the maximum', () => {
+            const result = controller.checkCommand('SELECT * FROM users LIMIT 1000')
+
+            expect(result.allowed).toBe(false)
+            expect(result.violationType).toBe('row_limit')
+        })
+
+        it.each(['SELECT * FROM users LIMIT $1', 'SELECT * FROM users LIMIT 5+1000'])('blocks a non-literal LIMIT: %s', sql => {
+            const [statement] = SqlParser.parse(sql)
+            const result = controller.checkCommand(sql)
+
+            expect(statement.hasLimit).toBe(true)
+            expect(statement.limit).toBeUndefined()
+            expect(result.allowed).toBe(false)
+            expect(result.violationType).toBe('row_limit')
+        })
+    })
+})
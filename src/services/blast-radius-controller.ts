@@ -4,13 +4,17 @@
  * This is the last line of defense before a query executes
  */
 
+import { ConnectionTarget } from './database-service'
 import { AccessScope } from './scope-analyzer'
+import { ParsedStatement, SqlParser, StatementKind } from './sql-parser'
+import { RowImpactEstimate, RowImpactEstimator } from './row-impact-estimator'
 
 export interface BlastRadiusResult {
     allowed: boolean
     reason?: string
     violationType?: 'row_limit' | 'no_where' | 'table_blocked' | 'operation_blocked' | 'scope_violation'
     severity: 'low' | 'medium' | 'high' | 'critical'
+    estimatedRows?: number  // planner estimate, when one was available
 }
 
 export interface BlastRadiusConfig {
@@ -19,93 +23,174 @@ export interface BlastRadiusConfig {
     requireWhereForDelete: boolean
     blockedOperations: string[]
     blockedTables: string[]
+    allowedFunctions: string[]  // built-ins a statement may call; anything else is blocked
 }
 
 // Default conservative configuration
-const DEFAULT_CONFIG: BlastRadiusConfig = {
+export const DEFAULT_CONFIG: BlastRadiusConfig = {
     maxRowsAffected: 100,
     requireWhereForUpdate: true,
     requireWhereForDelete: true,
     blockedOperations: ['DROP', 'TRUNCATE', 'ALTER'],
     blockedTables: ['migrations', 'schema_versions', 'pg_catalog', 'information_schema'],
+    allowedFunctions: [
+        // aggregates and window functions
+        'count', 'sum', 'avg', 'min', 'max', 'array_agg', 'string_agg', 'json_agg', 'jsonb_agg', 'bool_and', 'bool_or',
+        'row_number', 'rank', 'dense_rank', 'lag', 'lead', 'first_value', 'last_value',
+        // conditionals and math
+        'coalesce', 'nullif', 'greatest', 'least', 'abs', 'round', 'ceil', 'floor', 'mod', 'power', 'sqrt',
+        // strings
+        'lower', 'upper', 'length', 'char_length', 'substring', 'substr', 'trim', 'btrim', 'ltrim', 'rtrim',
+        'replace', 'concat', 'concat_ws', 'left', 'right', 'position', 'split_part', 'md5',
+        // dates and formatting
+        'now', 'date_trunc', 'date_part', 'age', 'to_char', 'to_date', 'to_timestamp', 'to_number',
+        // json
+        'json_build_object', 'jsonb_build_object', 'json_extract_path_text', 'jsonb_extract_path_text',
+    ],
 }
 
 // Dangerous pattern detection
-const DANGEROUS_PATTERNS = [
+const DANGEROUS_PATTERNS: {
+    name: string
+    test: (statement: ParsedStatement) => boolean
+    severity: BlastRadiusResult['severity']
+}[] = [
     {
         name: 'DROP without safeguard',
-        regex: /^DROP\s+(TABLE|DATABASE|SCHEMA|INDEX)/i,
-        severity: 'critical' as const,
+        test: statement => statement.kind === 'DROP',
+        severity: 'critical',
     },
     {
         name: 'TRUNCATE table',
-        regex: /^TRUNCATE\s+TABLE/i,
-        severity: 'critical' as const,
+        test: statement => statement.kind === 'TRUNCATE',
+        severity: 'critical',
     },
     {
         name: 'DELETE all rows (no WHERE)',
-        regex: /^DELETE\s+FROM\s+\w+\s*;?\s*$/i,
-        severity: 'critical' as const,
+        test: statement => statement.writes.some(w => w.target.role === 'delete' && !w.hasWhere),
+        severity: 'critical',
     },
     {
         name: 'UPDATE all rows (no WHERE)',
-        regex: /^UPDATE\s+\w+\s+SET\s+[^;]+(?<!WHERE\s+\w+)\s*;?\s*$/i,
-        severity: 'high' as const,
-    },
-    {
-        name: 'Mass DELETE with *',
-        regex: /DELETE\s+\*\s+FROM/i,
-        severity: 'critical' as const,
+        test: statement => statement.writes.some(w => w.target.role === 'update' && !w.hasWhere),
+        severity: 'high',
     },
 ]
 
 export class BlastRadiusController {
     private config: BlastRadiusConfig
 
-    constructor(config?: Partial<BlastRadiusConfig>) {
+    /**
+     * @param target - database the planner estimates run against (defaults to POSTGRES_*)
+     */
+    constructor(config?: Partial<BlastRadiusConfig>, private target?: ConnectionTarget) {
         this.config = { ...DEFAULT_CONFIG, ...config }
     }
 
     /**
      * Main entry point - checks if a command is within blast radius
+     * Every statement in the command must pass
      */
     checkCommand(command: string, scope?: AccessScope): BlastRadiusResult {
-        const trimmedCmd = command.trim()
-        const upperCmd = trimmedCmd.toUpperCase()
+        for (const statement of SqlParser.parse(command)) {
+            const result = this.checkStatement(statement, scope)
+            if (!result.allowed) {
+                return result
+            }
+        }
+
+        return {
+            allowed: true,
+            severity: 'low',
+        }
+    }
+
+    /**
+     * Checks a statement using the planner's row estimate for writes
+     * Falls back to static row limit heuristics when no estimate is available
+     */
+    async checkStatementWithEstimate(statement: ParsedStatement, scope?: AccessScope): Promise<BlastRadiusResult> {
+        const estimate = await RowImpactEstimator.estimate(statement, this.target)
+        return this.checkStatement(statement, scope, estimate ?? undefined)
+    }
+
+    /**
+     * Checks a single parsed statement against blast radius limits
+     */
+    checkStatement(
+        statement: ParsedStatement,
+        scope?: AccessScope,
+        estimate?: RowImpactEstimate
+    ): BlastRadiusResult {
+        const result = this.evaluateStatement(statement, scope, estimate)
+        return estimate ? { ...result, estimatedRows: estimate.estimatedRows } : result
+    }
+
+    private evaluateStatement(
+        statement: ParsedStatement,
+        scope?: AccessScope,
+        estimate?: RowImpactEstimate
+    ): BlastRadiusResult {
+        // Check 0: Fail closed on anything we cannot parse
+        if (statement.parseError) {
+            return {
+                allowed: false,
+                reason: `Unable to parse SQL statement: ${statement.parseError}`,
+                violationType: 'operation_blocked',
+                severity: 'high',
+            }
+        }
+
+        // Check 0b: Fail closed on statements the checks below cannot see into
+        // (DO blocks, SET, transaction control, ...)
+        if (statement.kind === 'OTHER') {
+            return {
+                allowed: false,
+                reason: 'Statement type is not permitted through Glasskiss',
+                violationType: 'operation_blocked',
+                severity: 'high',
+            }
+        }
+
+        // Check 0c: Only side-effect-free built-in functions may be called
+        const functionCheck = this.checkFunctions(statement)
+        if (!functionCheck.allowed) {
+            return functionCheck
+        }
 
         // Check 1: Dangerous patterns (highest priority)
-        const dangerousCheck = this.checkDangerousPatterns(trimmedCmd)
+        const dangerousCheck = this.checkDangerousPatterns(statement)
         if (!dangerousCheck.allowed) {
             return dangerousCheck
         }
 
         // Check 2: Blocked operations
-        const operationCheck = this.checkBlockedOperations(upperCmd)
+        const operationCheck = this.checkBlockedOperations(statement)
         if (!operationCheck.allowed) {
             return operationCheck
         }
 
         // Check 3: Blocked tables
-        const tableCheck = this.checkBlockedTables(trimmedCmd)
+        const tableCheck = this.checkBlockedTables(statement)
         if (!tableCheck.allowed) {
             return tableCheck
         }
 
         // Check 4: WHERE clause requirements
-        const whereCheck = this.checkWhereClause(trimmedCmd)
+        const whereCheck = this.checkWhereClause(statement)
         if (!whereCheck.allowed) {
             return whereCheck
         }
 
         // Check 5: Row limit estimation
-        const rowLimitCheck = this.checkRowLimit(trimmedCmd, scope)
+        const rowLimitCheck = this.checkRowLimit(statement, scope, estimate)
         if (!rowLimitCheck.allowed) {
             return rowLimitCheck
         }
 
         // Check 6: Scope validation (if scope provided)
         if (scope) {
-            const scopeCheck = this.checkScopeCompliance(trimmedCmd, scope)
+            const scopeCheck = this.checkScopeCompliance(statement, scope)
             if (!scopeCheck.allowed) {
                 return scopeCheck
             }
@@ -120,9 +205,9 @@ export class BlastRadiusController {
     /**
      * Check against known dangerous patterns
      */
-    private checkDangerousPatterns(command: string): BlastRadiusResult {
+    private checkDangerousPatterns(statement: ParsedStatement): BlastRadiusResult {
         for (const pattern of DANGEROUS_PATTERNS) {
-            if (pattern.regex.test(command)) {
+            if (pattern.test(statement)) {
                 return {
                     allowed: false,
                     reason: `Blocked: ${pattern.name}`,
@@ -135,12 +220,39 @@ export class BlastRadiusController {
         return { allowed: true, severity: 'low' }
     }
 
+    /**
+     * Check every function call against the allow-list
+     * Built-ins may be qualified with pg_catalog; other schemas are never allowed
+     */
+    private checkFunctions(statement: ParsedStatement): BlastRadiusResult {
+        const denied = statement.functions.find(fn => {
+            const name = fn.startsWith('pg_catalog.') ? fn.slice('pg_catalog.'.length) : fn
+            return !this.config.allowedFunctions.includes(name)
+        })
+
+        if (denied) {
+            return {
+                allowed: false,
+                reason: `Function ${denied}() is not permitted by blast radius policy`,
+                violationType: 'operation_blocked',
+                severity: 'high',
+            }
+        }
+
+        return { allowed: true, severity: 'low' }
+    }
+
     /**
      * Check if operation type is blocked
      */
-    private checkBlockedOperations(upperCmd: string): BlastRadiusResult {
+    private checkBlockedOperations(statement: ParsedStatement): BlastRadiusResult {
+        const operations = new Set([
+            statement.kind,
+            ...statement.relations.map(r => SqlParser.operationFor(r, statement)),
+        ])
+
         for (const op of this.config.blockedOperations) {
-            if (upperCmd.startsWith(op)) {
+            if (operations.has(op as StatementKind)) {
                 return {
                     allowed: false,
                     reason: `Operation ${op} is blocked by blast radius policy`,
@@ -154,28 +266,24 @@ export class BlastRadiusController {
     }
 
     /**
-     * Check if command targets a blocked table
+     * Check if any relation the statement touches is a blocked table or schema
      */
-    private checkBlockedTables(command: string): BlastRadiusResult {
-        const lowerCmd = command.toLowerCase()
-
-        for (const table of this.config.blockedTables) {
-            // Check various SQL patterns that reference tables
-            const patterns = [
-                new RegExp(`from\\s+${table}\\b`, 'i'),
-                new RegExp(`into\\s+${table}\\b`, 'i'),
-                new RegExp(`update\\s+${table}\\b`, 'i'),
-                new RegExp(`table\\s+${table}\\b`, 'i'),
-            ]
-
-            for (const pattern of patterns) {
-                if (pattern.test(lowerCmd)) {
-                    return {
-                        allowed: false,
-                        reason: `Table '${table}' is protected by blast radius policy`,
-                        violationType: 'table_blocked',
-                        severity: 'high',
-                    }
+    private checkBlockedTables(statement: ParsedStatement): BlastRadiusResult {
+        for (const relation of statement.relations) {
+            // A bare entry names a table or a whole schema
+            const hit = this.config.blockedTables.find(entry => {
+                const parts = SqlParser.identifierParts(entry)
+                return parts.length === 1
+                    ? parts[0] === relation.name || parts[0] === relation.schema
+                    : SqlParser.matchesTable(relation, [entry])
+            })
+
+            if (hit) {
+                return {
+                    allowed: false,
+                    reason: `Table '${hit}' is protected by blast radius policy`,
+                    violationType: 'table_blocked',
+                    severity: 'high',
                 }
             }
         }
@@ -184,29 +292,31 @@ export class BlastRadiusController {
     }
 
     /**
-     * Check WHERE clause requirements for UPDATE/DELETE
+     * Check WHERE clause requirements for every UPDATE/DELETE clause,
+     * including writable CTEs
      */
-    private checkWhereClause(command: string): BlastRadiusResult {
-        const upperCmd = command.toUpperCase().trim()
-        const hasWhere = /\bWHERE\b/i.test(command)
+    private checkWhereClause(statement: ParsedStatement): BlastRadiusResult {
+        for (const write of statement.writes) {
+            if (write.hasWhere) continue
 
-        // Check DELETE
-        if (upperCmd.startsWith('DELETE') && this.config.requireWhereForDelete && !hasWhere) {
-            return {
-                allowed: false,
-                reason: 'DELETE requires a WHERE clause. Mass deletes are not permitted.',
-                violationType: 'no_where',
-                severity: 'critical',
+            // Check DELETE
+            if (write.target.role === 'delete' && this.config.requireWhereForDelete) {
+                return {
+                    allowed: false,
+                    reason: 'DELETE requires a WHERE clause. Mass deletes are not permitted.',
+                    violationType: 'no_where',
+                    severity: 'critical',
+                }
             }
-        }
 
-        // Check UPDATE
-        if (upperCmd.startsWith('UPDATE') && this.config.requireWhereForUpdate && !hasWhere) {
-            return {
-                allowed: false,
-                reason: 'UPDATE requires a WHERE clause. Mass updates are not permitted.',
-                violationType: 'no_where',
-                severity: 'high',
+            // Check UPDATE
+            if (write.target.role === 'update' && this.config.requireWhereForUpdate) {
+                return {
+                    allowed: false,
+                    reason: 'UPDATE requires a WHERE clause. Mass updates are not permitted.',
+                    violationType: 'no_where',
+                    severity: 'high',
+                }
             }
         }
 
@@ -216,52 +326,71 @@ export class BlastRadiusController {
     /**
      * Estimate and check row limit
      */
-    private checkRowLimit(command: string, scope?: AccessScope): BlastRadiusResult {
+    private checkRowLimit(
+        statement: ParsedStatement,
+        scope?: AccessScope,
+        estimate?: RowImpactEstimate
+    ): BlastRadiusResult {
         const maxRows = scope?.maxRowsAffected ?? this.config.maxRowsAffected
-        const upperCmd = command.toUpperCase()
+
+        // A LIMIT of $1 or 5+1000 could be anything, so it cannot vouch for the row count
+        if (statement.hasLimit && statement.limit === undefined) {
+            return {
+                allowed: false,
+                reason: `LIMIT must be a literal row count (max ${maxRows})`,
+                violationType: 'row_limit',
+                severity: 'medium',
+            }
+        }
 
         // Check for LIMIT clause
-        const limitMatch = command.match(/LIMIT\s+(\d+)/i)
-        if (limitMatch) {
-            const limit = parseInt(limitMatch[1], 10)
-            if (limit > maxRows) {
+        if (statement.limit !== undefined && statement.limit > maxRows) {
+            return {
+                allowed: false,
+                reason: `LIMIT ${statement.limit} exceeds maximum allowed (${maxRows})`,
+                violationType: 'row_limit',
+                severity: 'medium',
+            }
+        }
+
+        // A planner estimate replaces the ID-targeting heuristics below
+        if (estimate) {
+            if (estimate.estimatedRows > maxRows) {
                 return {
                     allowed: false,
-                    reason: `LIMIT ${limit} exceeds maximum allowed (${maxRows})`,
+                    reason: `Planner estimates ${estimate.estimatedRows} rows affected (${estimate.planNode}), exceeds max ${maxRows}`,
                     violationType: 'row_limit',
-                    severity: 'medium',
+                    severity: estimate.estimatedRows > maxRows * 100 ? 'high' : 'medium',
                 }
             }
+
+            return { allowed: true, severity: 'low' }
         }
 
-        // For DELETE/UPDATE without LIMIT, check if WHERE is specific enough
-        if ((upperCmd.startsWith('DELETE') || upperCmd.startsWith('UPDATE')) && !limitMatch) {
+        // For DELETE/UPDATE, check if WHERE is specific enough
+        for (const write of statement.writes) {
+            if (write.target.role !== 'update' && write.target.role !== 'delete') continue
+
             // Check for specific ID targeting
-            const hasSpecificId = /WHERE\s+\w*id\s*=\s*\d+/i.test(command)
-            const hasInClause = /WHERE\s+\w*id\s+IN\s*\(/i.test(command)
+            const idPredicates = write.predicates.filter(p => /id$/i.test(p.column))
 
-            if (!hasSpecificId && !hasInClause) {
+            if (idPredicates.length === 0) {
                 return {
                     allowed: false,
-                    reason: `Write operations must target specific IDs or include LIMIT. Max rows: ${maxRows}`,
+                    reason: `Write operations must target specific IDs. Max rows: ${maxRows}`,
                     violationType: 'row_limit',
                     severity: 'medium',
                 }
             }
 
             // If using IN clause, count the items
-            if (hasInClause) {
-                const inMatch = command.match(/IN\s*\(([^)]+)\)/i)
-                if (inMatch) {
-                    const itemCount = inMatch[1].split(',').length
-                    if (itemCount > maxRows) {
-                        return {
-                            allowed: false,
-                            reason: `IN clause contains ${itemCount} items, exceeds max ${maxRows}`,
-                            violationType: 'row_limit',
-                            severity: 'medium',
-                        }
-                    }
+            const itemCount = Math.min(...idPredicates.map(p => p.values.length))
+            if (itemCount > maxRows) {
+                return {
+                    allowed: false,
+                    reason: `IN clause contains ${itemCount} items, exceeds max ${maxRows}`,
+                    violationType: 'row_limit',
+                    severity: 'medium',
                 }
             }
         }
@@ -270,46 +399,50 @@ export class BlastRadiusController {
     }
 
     /**
-     * Check compliance with access scope
+     * Check compliance with access scope for every relation the statement touches
      */
-    private checkScopeCompliance(command: string, scope: AccessScope): BlastRadiusResult {
+    private checkScopeCompliance(statement: ParsedStatement, scope: AccessScope): BlastRadiusResult {
         // Check operation type
-        const operation = this.getOperationType(command)
+        const operations = [
+            statement.kind,
+            ...statement.relations.map(r => SqlParser.operationFor(r, statement)),
+        ]
 
-        if (!scope.allowedOperations.includes(operation)) {
-            return {
-                allowed: false,
-                reason: `Operation ${operation} not in approved scope. Allowed: ${scope.allowedOperations.join(', ')}`,
-                violationType: 'scope_violation',
-                severity: 'high',
+        for (const operation of operations) {
+            if (!scope.allowedOperations.includes(operation)) {
+                return {
+                    allowed: false,
+                    reason: `Operation ${operation} not in approved scope. Allowed: ${scope.allowedOperations.join(', ')}`,
+                    violationType: 'scope_violation',
+                    severity: 'high',
+                }
             }
         }
 
-        // Check table
-        const table = this.extractTableName(command)
-        if (table && !scope.allowedTables.includes(table.toLowerCase())) {
-            return {
-                allowed: false,
-                reason: `Table '${table}' not in approved scope. Allowed: ${scope.allowedTables.join(', ')}`,
-                violationType: 'scope_violation',
-                severity: 'high',
+        for (const relation of statement.relations) {
+            // Check table
+            if (!SqlParser.matchesTable(relation, scope.allowedTables)) {
+                return {
+                    allowed: false,
+                    reason: `Table '${SqlParser.qualifiedName(relation)}' not in approved scope. Allowed: ${scope.allowedTables.join(', ')}`,
+                    violationType: 'scope_violation',
+                    severity: 'high',
+                }
             }
         }
 
         // For write operations, check row filters
-        if (['UPDATE', 'DELETE'].includes(operation) && table) {
-            const requiredFilter = scope.rowFilters[table.toLowerCase()]
-
-            if (requiredFilter && Object.keys(scope.rowFilters).length > 0) {
-                const hasFilter = this.commandContainsFilter(command, requiredFilter)
-
-                if (!hasFilter) {
-                    return {
-                        allowed: false,
-                        reason: `Query must include approved scope: WHERE ${requiredFilter}`,
-                        violationType: 'scope_violation',
-                        severity: 'high',
-                    }
+        for (const write of statement.writes) {
+            if (write.target.role !== 'update' && write.target.role !== 'delete') continue
+
+            const requiredFilter = SqlParser.rowFilterFor(write.target, scope.rowFilters)
+
+            if (requiredFilter && !SqlParser.satisfiesFilter(write, requiredFilter)) {
+                return {
+                    allowed: false,
+                    reason: `Query must include approved scope: WHERE ${requiredFilter}`,
+                    violationType: 'scope_violation',
+                    severity: 'high',
                 }
             }
         }
@@ -318,77 +451,39 @@ export class BlastRadiusController {
     }
 
     /**
-     * Get operation type from command
+     * Create a controller with scope-specific configuration
+     * on top of the resource's baseline
      */
-    private getOperationType(command: string): string {
-        const upperCmd = command.trim().toUpperCase()
-        if (upperCmd.startsWith('SELECT')) return 'SELECT'
-        if (upperCmd.startsWith('INSERT')) return 'INSERT'
-        if (upperCmd.startsWith('UPDATE')) return 'UPDATE'
-        if (upperCmd.startsWith('DELETE')) return 'DELETE'
-        if (upperCmd.startsWith('DROP')) return 'DROP'
-        if (upperCmd.startsWith('CREATE')) return 'CREATE'
-        if (upperCmd.startsWith('ALTER')) return 'ALTER'
-        if (upperCmd.startsWith('TRUNCATE')) return 'TRUNCATE'
-        return 'OTHER'
+    static fromScope(
+        scope: AccessScope,
+        baseline?: Partial<BlastRadiusConfig>,
+        target?: ConnectionTarget
+    ): BlastRadiusController {
+        return new BlastRadiusController(this.configFor(scope, baseline), target)
     }
 
     /**
-     * Extract table name from command
+     * Effective configuration: the resource baseline, narrowed by the scope.
+     * A scope can lower the row limit and block more, never relax the baseline.
      */
-    private extractTableName(command: string): string | null {
-        const patterns = [
-            /FROM\s+(\w+)/i,
-            /UPDATE\s+(\w+)/i,
-            /INTO\s+(\w+)/i,
-            /DELETE\s+FROM\s+(\w+)/i,
-            /TABLE\s+(\w+)/i,
-        ]
-
-        for (const pattern of patterns) {
-            const match = command.match(pattern)
-            if (match) {
-                return match[1]
-            }
-        }
-
-        return null
-    }
+    static configFor(scope?: AccessScope, baseline: Partial<BlastRadiusConfig> = {}): BlastRadiusConfig {
+        const base = { ...DEFAULT_CONFIG, ...baseline }
 
-    /**
-     * Check if command contains required filter conditions
-     */
-    private commandContainsFilter(command: string, filter: string): boolean {
-        const lowerCmd = command.toLowerCase()
-        const conditions = filter.toLowerCase().split(' and ').map(c => c.trim())
-
-        for (const condition of conditions) {
-            const match = condition.match(/(\w+)\s*=\s*(\w+)/)
-            if (match) {
-                const field = match[1]
-                const value = match[2]
-                const filterRegex = new RegExp(`${field}\\s*=\\s*['"]?${value}['"]?`, 'i')
-
-                if (!filterRegex.test(lowerCmd)) {
-                    return false
-                }
-            }
+        if (!scope) {
+            return base
         }
 
-        return conditions.length > 0
-    }
-
-    /**
-     * Create a controller with scope-specific configuration
-     */
-    static fromScope(scope: AccessScope): BlastRadiusController {
-        return new BlastRadiusController({
-            maxRowsAffected: scope.maxRowsAffected,
+        return {
+            maxRowsAffected: Math.min(scope.maxRowsAffected, base.maxRowsAffected),
             requireWhereForUpdate: true,
             requireWhereForDelete: true,
             // Block any operations not in scope
-            blockedOperations: ['DROP', 'TRUNCATE', 'ALTER', 'CREATE']
-                .filter(op => !scope.allowedOperations.includes(op)),
-        })
+            blockedOperations: [...new Set([
+                ...(baseline.blockedOperations ?? []),
+                ...['DROP', 'TRUNCATE', 'ALTER', 'CREATE'].filter(op => !scope.allowedOperations.includes(op)),
+            ])],
+            blockedTables: [...new Set([...DEFAULT_CONFIG.blockedTables, ...(baseline.blockedTables ?? [])])],
+            allowedFunctions: base.allowedFunctions,
+        }
     }
 }
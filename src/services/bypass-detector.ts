@@ -0,0 +1,132 @@
+/**
+ * Bypass Detector Service
+ * Compares what the database saw a temp role run with what went through
+ * enforcement. A statement missing from the sessionLog stream was executed
+ * over a direct connection, around the proxy and the API.
+ */
+
+import { ObservedQuery } from './database-service'
+import { SessionLog } from './glasskiss-types'
+import { SqlParser } from './sql-parser'
+
+// Statements GlassKiss itself wraps around enforced writes, never logged
+const TRANSACTION_CONTROL = /^(begin|start transaction|commit|end|rollback|abort|savepoint|release)\b/
+
+// pg_stat_activity cuts query text at track_activity_query_size (1024 by default)
+const ACTIVITY_TEXT_LIMIT = 1023
+
+export interface UnloggedStatement {
+    fingerprint: string
+    statement: string
+    source: ObservedQuery['source']
+}
+
+// Unlogged statements seen for a request, kept between samples
+export interface BypassSuspects {
+    id: string
+    requestId: string
+    statements: Record<string, UnloggedStatement & { firstSeen: string }>
+}
+
+// Logging can trail execution (ExecuteCommandAPI logs after running), so a
+// statement only counts as a bypass once it stays unlogged this long
+const CONFIRM_AFTER_MS = 60 * 1000
+
+export class BypassDetector {
+    /**
+     * Statements in the observed queries that match nothing in the session log
+     */
+    static findUnlogged(observed: ObservedQuery[], logged: SessionLog[]): UnloggedStatement[] {
+        const loggedFingerprints = new Set(logged.map(log => this.fingerprint(log.command)))
+        const unlogged = new Map<string, UnloggedStatement>()
+
+        for (const query of observed) {
+            const truncated = query.source === 'pg_stat_activity'
+                && Buffer.byteLength(query.query) >= ACTIVITY_TEXT_LIMIT
+
+            for (const statement of SqlParser.split(query.query)) {
+                const fingerprint = this.fingerprint(statement)
+                if (!fingerprint || TRANSACTION_CONTROL.test(fingerprint)) {
+                    continue
+                }
+                if (loggedFingerprints.has(fingerprint)) {
+                    continue
+                }
+                if (truncated && this.matchesPrefix(fingerprint, loggedFingerprints)) {
+                    continue
+                }
+                if (!unlogged.has(fingerprint)) {
+                    unlogged.set(fingerprint, { fingerprint, statement, source: query.source })
+                }
+            }
+        }
+
+        return [...unlogged.values()]
+    }
+
+    /**
+     * Split unlogged statements into confirmed bypasses and ones still inside
+     * the grace period. Earlier suspects are kept even when the backend has
+     * moved on to another query, and dropped once they show up in the log.
+     */
+    static confirm(
+        requestId: string,
+        unlogged: UnloggedStatement[],
+        logged: SessionLog[],
+        previous: BypassSuspects | null,
+        now: Date = new Date()
+    ): { confirmed: UnloggedStatement[]; suspects: BypassSuspects } {
+        const loggedFingerprints = new Set(logged.map(log => this.fingerprint(log.command)))
+        const statements: BypassSuspects['statements'] = {}
+
+        for (const [fingerprint, suspect] of Object.entries(previous?.statements ?? {})) {
+            if (!loggedFingerprints.has(fingerprint)) {
+                statements[fingerprint] = suspect
+            }
+        }
+        for (const statement of unlogged) {
+            statements[statement.fingerprint] ??= { ...statement, firstSeen: now.toISOString() }
+        }
+
+        const confirmed = Object.values(statements)
+            .filter(suspect => now.getTime() - new Date(suspect.firstSeen).getTime() >= CONFIRM_AFTER_MS)
+            .map(({ firstSeen, ...statement }) => statement)
+
+        return { confirmed, suspects: { id: requestId, requestId, statements } }
+    }
+
+    /**
+     * Shape of a statement with constants removed, the way pg_stat_statements
+     * records it: literals and $n parameters become ?, comments, case and
+     * spacing are ignored
+     */
+    static fingerprint(sql: string): string {
+        return sql
+            .replace(/--[^\n]*/g, ' ')
+            .replace(/\/\*[\s\S]*?\*\//g, ' ')
+            .replace(/\$([A-Za-z_][A-Za-z0-9_]*)?\$[\s\S]*?\$\1\$/g, '?')
+            .replace(/[eE]?'(?:[^'\\]|''|\\.)*'/g, '?')
+            .replace(/\$\d+/g, '?')
+            .replace(/(?<![\w$."])\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g, '?')
+            .toLowerCase()
+            .replace(/\s+/g, ' ')
+            .replace(/\s*([(),=<>+\-*/;])\s*/g, '$1')
+            .replace(/(^|[(,=<>+*/])-\?/g, '$1?')
+            .replace(/;+$/, '')
+            .trim()
+    }
+
+    private static matchesPrefix(fingerprint: string, logged: Set<string>): boolean {
+        // The last token may have been cut mid-word
+        const prefix = fingerprint.slice(0, Math.max(fingerprint.lastIndexOf(' '), 0))
+        if (!prefix) {
+            return false
+        }
+        for (const candidate of logged) {
+            if (candidate.startsWith(prefix)) {
+                return true
+            }
+        }
+        return false
+    }
+}
@@ -0,0 +1,174 @@
+/**
+ * Command Enforcer Service
+ * Single enforcement path for SQL commands from active sessions
+ * Used by both the logging and the execution endpoints so their decisions
+ * can never drift apart
+ */
+
+import { FlowContext } from 'motia'
+import { randomBytes } from 'crypto'
+import { BlastRadiusController, BlastRadiusResult } from './blast-radius-controller'
+import { Credentials } from './glasskiss-types'
+import { ResourceRegistry } from './resource-registry'
+import { AccessScope } from './scope-analyzer'
+import { SlackService } from './slack-service'
+import { ParsedStatement, SqlParser } from './sql-parser'
+
+export type EnforcementViolation = 'scope' | 'blast_radius' | 'operation' | 'table' | 'row_limit'
+
+export interface StatementDecision {
+    statement: string
+    queryType: string
+    decision: 'allowed' | 'blocked'
+    reason?: string
+    violationType?: EnforcementViolation
+    severity: 'low' | 'medium' | 'high' | 'critical'
+    estimatedRows?: number
+}
+
+export interface EnforcementOutcome {
+    allowed: boolean
+    statements: ParsedStatement[]
+    decisions: StatementDecision[]
+    blockReason?: string
+}
+
+type EnforcementContext = Pick<FlowContext, 'streams' | 'logger'>
+
+export class CommandEnforcer {
+    /**
+     * Split a command, check every statement against blast radius and scope,
+     * and record each decision in the scopeEnforcement stream.
+     * The whole batch is rejected if any statement is blocked.
+     */
+    static async enforce(
+        command: string,
+        credential: Credentials,
+        { streams, logger }: EnforcementContext
+    ): Promise<EnforcementOutcome> {
+        const { requestId, sessionId } = credential
+        const accessScope = credential.accessScope as AccessScope | undefined
+
+        // Create blast radius controller with the resource baseline and scope config
+        const resource = ResourceRegistry.get(credential.resource)
+        const blastRadiusController = accessScope
+            ? BlastRadiusController.fromScope(accessScope, resource?.blastRadius, resource)
+            : new BlastRadiusController(resource?.blastRadius, resource)
+
+        // Split the command and check every statement on its own
+        const statements = SqlParser.parse(command)
+        const checks = await Promise.all(statements.map(async (statement) => ({
+            statement,
+            result: await blastRadiusController.checkStatementWithEstimate(statement, accessScope),
+        })))
+
+        const blocked = checks.filter(({ result }) => !result.allowed)
+
+        // Statements that passed on their own are still rejected with a blocked batch
+        const decisions: StatementDecision[] = checks.map(({ statement, result }) => ({
+            statement: statement.sql,
+            queryType: statement.kind,
+            decision: result.allowed && blocked.length === 0 ? 'allowed' : 'blocked',
+            reason: result.allowed
+                ? blocked.length > 0 ? 'Batch rejected: another statement in this command was blocked' : undefined
+                : result.reason,
+            violationType: result.violationType ? this.toEnforcementViolation(result.violationType) : undefined,
+            severity: result.severity,
+            estimatedRows: result.estimatedRows,
+        }))
+
+        // Record the decision for each statement in the enforcement stream
+        for (const decision of decisions) {
+            const enforcementId = randomBytes(8).toString('hex')
+            await streams.scopeEnforcement.set(sessionId, enforcementId, {
+                id: enforcementId,
+                sessionId,
+                requestId,
+                timestamp: new Date().toISOString(),
+                command: decision.statement,
+                decision: decision.decision,
+                reason: decision.reason,
+                violationType: decision.violationType,
+                severity: decision.severity,
+                estimatedRows: decision.estimatedRows,
+            })
+        }
+
+        if (blocked.length === 0) {
+            return { allowed: true, statements, decisions }
+        }
+
+        const { statement, result: blastCheck } = blocked[0]
+
+        logger.warn('Command BLOCKED by blast radius control', {
+            requestId,
+            sessionId,
+            command: command.substring(0, 100),
+            blockedStatements: blocked.length,
+            totalStatements: statements.length,
+            reason: blastCheck.reason,
+            severity: blastCheck.severity,
+            violationType: blastCheck.violationType,
+        })
+
+        // 🚨 SEND SLACK ALERT FOR BLOCKED QUERY
+        try {
+            await SlackService.sendSecurityAlert({
+                requestId,
+                sessionId,
+                alertType: 'blocked',
+                severity: blastCheck.severity === 'critical' ? 'critical'
+                    : blastCheck.severity === 'high' ? 'high'
+                        : 'medium',
+                details: `**Blocked Query:**\n\`\`\`${statement.sql.substring(0, 200)}\`\`\`\n**Reason:** ${blastCheck.reason}` +
+                    (statements.length > 1 ? `\n**Batch:** ${blocked.length} of ${statements.length} statements blocked, batch rejected` : ''),
+            })
+            logger.info('Slack alert sent for blocked query', { requestId, sessionId })
+        } catch (slackError) {
+            logger.warn('Failed to send Slack alert', { error: slackError })
+        }
+
+        return { allowed: false, statements, decisions, blockReason: blastCheck.reason }
+    }
+
+    /**
+     * Record an allowed statement in the sessionLog stream
+     * Returns the log ID for anomaly detection
+     */
+    static async recordSessionLog(
+        credential: Credentials,
+        statement: ParsedStatement,
+        { streams }: Pick<FlowContext, 'streams'>,
+        flagReason?: string
+    ): Promise<string> {
+        const logId = randomBytes(8).toString('hex')
+        await streams.sessionLog.set(credential.sessionId, logId, {
+            id: logId,
+            requestId: credential.requestId,
+            sessionId: credential.sessionId,
+            timestamp: new Date().toISOString(),
+            command: statement.sql,
+            queryType: statement.kind,
+            flagged: !!flagReason,
+            flagReason,
+        })
+        return logId
+    }
+
+    private static toEnforcementViolation(
+        violationType: NonNullable<BlastRadiusResult['violationType']>
+    ): EnforcementViolation {
+        switch (violationType) {
+            case 'scope_violation':
+                return 'scope'
+            case 'row_limit':
+                return 'row_limit'
+            case 'table_blocked':
+                return 'table'
+            case 'operation_blocked':
+                return 'operation'
+            default:
+                return 'blast_radius'
+        }
+    }
+}
@@ -4,7 +4,8 @@
  * In production, this would integrate with AWS IAM, PostgreSQL, etc.
  */
 
-import { randomBytes } from 'crypto'
+import { AccessScope } from './glasskiss-types'
+import { RoleSql } from './role-sql'
 
 export interface CredentialInfo {
     username: string
@@ -17,20 +18,23 @@ export class CredentialManager {
     /**
      * Provisions temporary credentials for a user
      * Simulates: CREATE USER 'temp_user' WITH PASSWORD '...' VALID UNTIL '...'
+     * plus scoped GRANTs and one RLS policy per row filter in the access scope
      */
     static async provisionCredentials(
         requestId: string,
         resource: string,
-        duration: number
+        duration: number,
+        accessLevel: string,
+        accessScope?: AccessScope
     ): Promise<CredentialInfo> {
-        // Generate unique temp username
-        const username = `temp_${requestId.substring(0, 8)}`
+        // Generate unique temp username, under the same rules as real roles
+        const username = RoleSql.username(requestId, 'temp_')
 
         // Generate secure random password
-        const password = randomBytes(16).toString('base64')
+        const password = RoleSql.generatePassword()
 
         // Generate session ID
-        const sessionId = randomBytes(8).toString('hex')
+        const sessionId = RoleSql.generateSessionId()
 
         // Calculate expiry time
         const expiresAt = new Date(Date.now() + duration * 60 * 1000).toISOString()
@@ -39,6 +43,21 @@ export class CredentialManager {
         console.log(`[SIMULATED] CREATE USER ${username} WITH PASSWORD ...`)
         console.log(`[SIMULATED] VALID UNTIL ${expiresAt}`)
 
+        const operations = (accessScope?.allowedOperations ?? [])
+            .map(op => op.toUpperCase())
+            .filter(op => accessLevel !== 'READ_ONLY' || op === 'SELECT')
+        for (const table of accessScope?.allowedTables ?? []) {
+            const columns = accessScope?.allowedColumns?.[table]
+            for (const operation of operations) {
+                const columnList = columns?.length && operation !== 'DELETE' ? ` (${columns.join(', ')})` : ''
+                console.log(`[SIMULATED] GRANT ${operation}${columnList} ON ${table} TO ${username}`)
+            }
+        }
+
+        for (const [table, filter] of Object.entries(accessScope?.rowFilters ?? {})) {
+            console.log(`[SIMULATED] CREATE POLICY ${username}_scope ON ${table} AS RESTRICTIVE TO ${username} USING (${filter})`)
+        }
+
         return {
             username,
             password,
@@ -53,7 +72,8 @@ export class CredentialManager {
      */
     static async revokeCredentials(
         username: string,
-        resource: string
+        requestId: string,
+        reason: string
     ): Promise<boolean> {
         try {
             // Simulate killing active connections
@@ -61,8 +81,9 @@ export class CredentialManager {
                 `[SIMULATED] SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE usename = '${username}'`
             )
 
-            // Simulate user deletion
-            console.log(`[SIMULATED] DROP USER ${username}`)
+            // Simulate policy and user deletion
+            console.log(`[SIMULATED] DROP POLICY ${username}_scope ON <scoped tables>`)
+            console.log(`[SIMULATED] DROP USER ${username} (request ${requestId}, reason: ${reason})`)
 
             return true
         } catch (error) {
@@ -71,16 +92,27 @@ export class CredentialManager {
         }
     }
 
+    /**
+     * Moves the expiry of existing credentials
+     * Simulates: ALTER ROLE temp_user VALID UNTIL '...'
+     */
+    static async extendCredentials(
+        username: string,
+        requestId: string,
+        expiresAt: Date
+    ): Promise<boolean> {
+        console.log(`[SIMULATED] ALTER ROLE ${username} VALID UNTIL '${expiresAt.toISOString()}' (request ${requestId})`)
+        return true
+    }
+
     /**
      * Check if a user still exists (for zombie defense)
+     * Simulated roles are never created, so none can outlive revocation
      */
     static async checkUserExists(username: string): Promise<boolean> {
-        // Simulate: SELECT 1 FROM pg_user WHERE usename = '...'
         console.log(
-            `[SIMULATED] SELECT 1 FROM pg_user WHERE usename = '${username}'`
+            `[SIMULATED] SELECT 1 FROM pg_roles WHERE rolname = '${username}'`
         )
-
-        // For demo, randomly return false (user cleaned up)
-        return Math.random() > 0.9
+        return false
     }
 }
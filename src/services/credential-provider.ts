@@ -0,0 +1,221 @@
+/**
+ * Credential Provider Service
+ * One interface for issuing and removing temporary credentials, whatever
+ * backs them. Event steps resolve a provider per resource and never talk to
+ * CredentialManager or DatabaseService directly.
+ */
+
+import { CredentialInfo, CredentialManager } from './credential-manager'
+import { ConnectionTarget, DatabaseService, ObservedQuery, ZombieRole } from './database-service'
+import { AccessScope } from './glasskiss-types'
+import { ResourceRegistry } from './resource-registry'
+
+export interface ProvisionRequest {
+    requestId: string
+    resource: string
+    durationMinutes: number
+    accessLevel: string
+    accessScope?: AccessScope
+}
+
+export interface ManagedCredential {
+    username: string
+    requestId?: string
+    expiresAt?: string
+}
+
+export interface CredentialProvider {
+    readonly name: string
+
+    /** Whether exists() and listManaged() reflect a real system */
+    readonly verifiable: boolean
+
+    /** Create a temporary login limited to the approved scope */
+    provision(request: ProvisionRequest): Promise<CredentialInfo>
+
+    /** Kill sessions and remove the login; true when it is gone */
+    revoke(username: string, requestId: string, reason: string): Promise<boolean>
+
+    /** Move the login's expiry without issuing a new password */
+    extend(username: string, requestId: string, expiresAt: Date): Promise<boolean>
+
+    /** Whether the login still exists in the backing system */
+    exists(username: string): Promise<boolean>
+
+    /** Every login this provider manages, including ones GlassKiss lost track of */
+    listManaged(): Promise<ManagedCredential[]>
+
+    /** Logins that outlived their grant, as seen by the backing system */
+    detectZombies(): Promise<ZombieRole[]>
+
+    /** Statements the backing system saw managed logins run */
+    sampleActivity(): Promise<ObservedQuery[]>
+
+    /** Close tracking records whose login is gone; returns their usernames */
+    closeMissing(): Promise<string[]>
+
+    /** Write an entry to the backing system's audit log */
+    recordAudit(requestId: string, action: string, details: Record<string, unknown>): Promise<void>
+}
+
+/**
+ * Logs what it would do; nothing is created anywhere
+ */
+export class SimulatedCredentialProvider implements CredentialProvider {
+    readonly name = 'simulated'
+    readonly verifiable = false
+
+    provision(request: ProvisionRequest): Promise<CredentialInfo> {
+        return CredentialManager.provisionCredentials(
+            request.requestId,
+            request.resource,
+            request.durationMinutes,
+            request.accessLevel,
+            request.accessScope
+        )
+    }
+
+    revoke(username: string, requestId: string, reason: string): Promise<boolean> {
+        return CredentialManager.revokeCredentials(username, requestId, reason)
+    }
+
+    extend(username: string, requestId: string, expiresAt: Date): Promise<boolean> {
+        return CredentialManager.extendCredentials(username, requestId, expiresAt)
+    }
+
+    exists(username: string): Promise<boolean> {
+        return CredentialManager.checkUserExists(username)
+    }
+
+    async listManaged(): Promise<ManagedCredential[]> {
+        return []
+    }
+
+    async detectZombies(): Promise<ZombieRole[]> {
+        return []
+    }
+
+    async sampleActivity(): Promise<ObservedQuery[]> {
+        return []
+    }
+
+    async closeMissing(): Promise<string[]> {
+        return []
+    }
+
+    async recordAudit(requestId: string, action: string, details: Record<string, unknown>): Promise<void> {
+        console.log(`[SIMULATED] AUDIT ${action} (request ${requestId}): ${JSON.stringify(details)}`)
+    }
+}
+
+/**
+ * Real PostgreSQL roles with scoped GRANTs, RLS policies and VALID UNTIL
+ * Bound to one connection target; without one it uses the POSTGRES_* database
+ */
+export class PostgresCredentialProvider implements CredentialProvider {
+    readonly name = 'postgres'
+    readonly verifiable = true
+
+    constructor(private target?: ConnectionTarget) {}
+
+    provision(request: ProvisionRequest): Promise<CredentialInfo> {
+        return DatabaseService.provisionCredentials(
+            request.requestId,
+            request.resource,
+            request.durationMinutes,
+            request.accessLevel,
+            request.accessScope,
+            this.target
+        )
+    }
+
+    revoke(username: string, requestId: string, reason: string): Promise<boolean> {
+        return DatabaseService.revokeCredentials(username, requestId, reason, this.target)
+    }
+
+    extend(username: string, requestId: string, expiresAt: Date): Promise<boolean> {
+        return DatabaseService.extendCredentials(username, requestId, expiresAt, this.target)
+    }
+
+    exists(username: string): Promise<boolean> {
+        return DatabaseService.roleExists(username, this.target)
+    }
+
+    listManaged(): Promise<ManagedCredential[]> {
+        return DatabaseService.listManagedRoles(this.target)
+    }
+
+    detectZombies(): Promise<ZombieRole[]> {
+        return DatabaseService.findZombieRoles(this.target)
+    }
+
+    sampleActivity(): Promise<ObservedQuery[]> {
+        return DatabaseService.sampleRoleActivity(this.target)
+    }
+
+    closeMissing(): Promise<string[]> {
+        return DatabaseService.closeMissingRoles(this.target)
+    }
+
+    recordAudit(requestId: string, action: string, details: Record<string, unknown>): Promise<void> {
+        return DatabaseService.recordAudit(requestId, action, details, this.target)
+    }
+}
+
+const simulatedProvider = new SimulatedCredentialProvider()
+
+export class CredentialProviders {
+    /**
+     * Provider for a resource, connected to the resource's registry target.
+     * Which provider: CREDENTIAL_PROVIDERS ("prod-db=postgres,sandbox=simulated"),
+     * then the registry entry, then CREDENTIAL_BACKEND, which defaults to simulated.
+     */
+    static forResource(resource: string): CredentialProvider {
+        const definition = ResourceRegistry.get(resource)
+        const name = this.configuredProviders()[resource]
+            ?? definition?.credentialProvider
+            ?? process.env.CREDENTIAL_BACKEND
+            ?? 'simulated'
+
+        switch (name) {
+            case 'simulated':
+                return simulatedProvider
+            case 'postgres':
+                return new PostgresCredentialProvider(definition)
+            default:
+                throw new Error(`Unknown credential provider "${name}" for resource ${resource}`)
+        }
+    }
+
+    /**
+     * One provider per distinct backing system across the registry, for sweeps
+     */
+    static all(): CredentialProvider[] {
+        const providers = new Map<string, CredentialProvider>()
+
+        for (const resource of ResourceRegistry.list()) {
+            const provider = this.forResource(resource.name)
+            const key = provider.name === 'postgres'
+                ? `postgres:${resource.host}:${resource.port}/${resource.database}`
+                : provider.name
+            if (!providers.has(key)) {
+                providers.set(key, provider)
+            }
+        }
+
+        return [...providers.values()]
+    }
+
+    private static configuredProviders(): Record<string, string> {
+        const mapping: Record<string, string> = {}
+
+        for (const entry of (process.env.CREDENTIAL_PROVIDERS ?? '').split(',')) {
+            const [resource, name] = entry.split('=').map(part => part.trim())
+            if (resource && name) {
+                mapping[resource] = name
+            }
+        }
+
+        return mapping
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * Credential Vault Service
+ * Envelope encryption for secrets kept in state. Each secret gets its own
+ * AES-256-GCM data key, which is wrapped with the master key from
+ * GLASSKISS_CREDENTIAL_KEY (32 bytes, base64). State never holds a plaintext
+ * password or an unwrapped key.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { SealedSecret } from './glasskiss-types'
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+export class CredentialVault {
+    /**
+     * Encrypt a secret; context (e.g. the request ID) is bound as associated
+     * data, so an envelope cannot be moved to another record
+     */
+    static seal(plaintext: string, context: string): SealedSecret {
+        const { key, keyId } = this.masterKey()
+        const dataKey = randomBytes(32)
+
+        return {
+            keyId,
+            wrappedKey: this.encrypt(key, dataKey, keyId).toString('base64'),
+            ciphertext: this.encrypt(dataKey, Buffer.from(plaintext, 'utf8'), context).toString('base64'),
+        }
+    }
+
+    /**
+     * Decrypt a sealed secret; throws if the key, context or data do not match
+     */
+    static open(sealed: SealedSecret, context: string): string {
+        const { key, keyId } = this.masterKey()
+        if (sealed.keyId !== keyId) {
+            throw new Error(`Secret was sealed with master key ${sealed.keyId}, configured key is ${keyId}`)
+        }
+
+        const dataKey = this.decrypt(key, Buffer.from(sealed.wrappedKey, 'base64'), keyId)
+        return this.decrypt(dataKey, Buffer.from(sealed.ciphertext, 'base64'), context).toString('utf8')
+    }
+
+    private static masterKey(): { key: Buffer; keyId: string } {
+        const encoded = process.env.GLASSKISS_CREDENTIAL_KEY
+        if (!encoded) {
+            throw new Error('GLASSKISS_CREDENTIAL_KEY is not set')
+        }
+
+        const key = Buffer.from(encoded, 'base64')
+        if (key.length !== 32) {
+            throw new Error('GLASSKISS_CREDENTIAL_KEY must be 32 bytes, base64 encoded')
+        }
+
+        // Short fingerprint, so a rotated or wrong key fails with a clear message
+        const keyId = createHash('sha256').update(key).digest('hex').substring(0, 16)
+        return { key, keyId }
+    }
+
+    private static encrypt(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+        const iv = randomBytes(IV_LENGTH)
+        const cipher = createCipheriv(ALGORITHM, key, iv)
+        cipher.setAAD(Buffer.from(aad, 'utf8'))
+        const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()])
+        return Buffer.concat([iv, cipher.getAuthTag(), encrypted])
+    }
+
+    private static decrypt(key: Buffer, payload: Buffer, aad: string): Buffer {
+        const iv = payload.subarray(0, IV_LENGTH)
+        const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH)
+        const decipher = createDecipheriv(ALGORITHM, key, iv)
+        decipher.setAAD(Buffer.from(aad, 'utf8'))
+        decipher.setAuthTag(tag)
+        return Buffer.concat([decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()])
+    }
+}
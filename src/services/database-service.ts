@@ -4,7 +4,10 @@
  */
 
 import pg from 'pg'
-const { Pool } = pg
+import { AccessScope } from './glasskiss-types'
+import { RoleSql } from './role-sql'
+import { SqlParser, WherePredicate } from './sql-parser'
+const { Pool, escapeIdentifier, escapeLiteral } = pg
 
 export interface DatabaseCredentials {
     username: string
@@ -13,6 +16,49 @@ export interface DatabaseCredentials {
     sessionId: string
 }
 
+// Where a resource lives; admin credentials come from POSTGRES_USER / POSTGRES_PASSWORD
+export interface ConnectionTarget {
+    host: string
+    port: number
+    database: string
+    ssl: boolean
+}
+
+export type ZombieKind = 'expired_role' | 'live_session' | 'valid_until_changed'
+
+export interface ZombieRole {
+    username: string
+    requestId?: string
+    kind: ZombieKind
+    details: string
+    pids?: number[]        // live backends, for live_session
+}
+
+export interface ObservedQuery {
+    username: string
+    query: string
+    source: 'pg_stat_activity' | 'pg_stat_statements'
+    pid?: number
+    calls?: number
+}
+
+export interface ManagedRole {
+    username: string
+    requestId?: string     // from glasskiss_temp_users, when the role is tracked
+    expiresAt?: string     // tracked expiry, else the role's VALID UNTIL
+}
+
+// Permissive policy added when GlassKiss has to switch RLS on for a table,
+// so roles other than the temp users keep seeing every row
+const RLS_BASELINE_POLICY = 'glasskiss_baseline'
+
+// Table privileges a scope can translate into; DDL is never granted
+const GRANTABLE_OPERATIONS = ['SELECT', 'INSERT', 'UPDATE', 'DELETE']
+
+// Expired roles are dropped by the per-minute revocation sweep, so an expiry
+// only makes a zombie once it is older than this
+const ZOMBIE_GRACE_SECONDS = 5 * 60
+
 // Create connection pool using environment variables
 const pool = new Pool({
     host: process.env.POSTGRES_HOST || 'localhost',
@@ -25,6 +71,9 @@ const pool = new Pool({
     idleTimeoutMillis: 30000,
 })
 
+// Admin pools for resources that live somewhere other than the default database
+const targetPools = new Map<string, pg.Pool>()
+
 export class DatabaseService {
     /**
      * Test database connection
@@ -125,34 +174,39 @@ export class DatabaseService {
     static async provisionCredentials(
         requestId: string,
         resource: string,
-        durationMinutes: number
+        durationMinutes: number,
+        accessLevel: string,
+        accessScope?: AccessScope,
+        target?: ConnectionTarget
     ): Promise<DatabaseCredentials> {
-        const client = await pool.connect()
+        // Validated before a connection is taken: nothing unsafe reaches the SQL below
+        const username = RoleSql.username(requestId)
+        const database = target?.database ?? process.env.POSTGRES_DATABASE ?? 'glasskiss'
+        const client = await this.poolFor(target).connect()
 
         try {
-            // Generate unique username and password
-            const username = `gk_${requestId.substring(0, 8)}`
-            const password = this.generateSecurePassword()
-            const sessionId = this.generateSessionId()
+            // Role, grants and policies are created together or not at all
+            await client.query('BEGIN')
+
+            const password = RoleSql.generatePassword()
+            const sessionId = RoleSql.generateSessionId()
             const expiresAt = new Date(Date.now() + durationMinutes * 60 * 1000)
 
-            // Create the temporary database user
+            // Create the temporary database user, or reset it if this request was provisioned before
             // Using VALID UNTIL for automatic expiry at database level
-            await client.query(`
-                DO $$
-                BEGIN
-                    IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = '${username}') THEN
-                        CREATE ROLE ${username} WITH LOGIN PASSWORD '${password}' VALID UNTIL '${expiresAt.toISOString()}';
-                    END IF;
-                END
-                $$;
-            `)
+            const existing = await client.query('SELECT 1 FROM pg_roles WHERE rolname = $1', [username])
+            await client.query(existing.rows.length > 0
+                ? RoleSql.resetRole(username, password, expiresAt)
+                : RoleSql.createRole(username, password, expiresAt))
+
+            // Grant only what the approved scope allows
+            await client.query(RoleSql.grantConnect(database, username))
+            const grants = await this.grantScopedPrivileges(client, username, accessLevel, accessScope)
 
-            // Grant limited permissions
-            await client.query(`GRANT CONNECT ON DATABASE glasskiss TO ${username}`)
-            await client.query(`GRANT USAGE ON SCHEMA public TO ${username}`)
-            await client.query(`GRANT SELECT, INSERT, UPDATE ON ALL TABLES IN SCHEMA public TO ${username}`)
-            await client.query(`GRANT USAGE ON ALL SEQUENCES IN SCHEMA public TO ${username}`)
+            // Second enforcement layer: the database itself applies rowFilters
+            const policyTables = accessScope
+                ? await this.applyRowFilterPolicies(client, username, accessScope.rowFilters as Record<string, string>)
+                : []
 
             // Track the temporary user
             await client.query(`
@@ -171,9 +225,13 @@ export class DatabaseService {
             `, [requestId, sessionId, username, JSON.stringify({
                 resource,
                 durationMinutes,
-                expiresAt: expiresAt.toISOString()
+                expiresAt: expiresAt.toISOString(),
+                grants,
+                rowLevelSecurity: policyTables,
             })])
 
+            await client.query('COMMIT')
+
             console.log(`[DATABASE] ✅ Created temp user: ${username} (expires: ${expiresAt.toISOString()})`)
 
             return {
@@ -182,6 +240,9 @@ export class DatabaseService {
                 expiresAt: expiresAt.toISOString(),
                 sessionId,
             }
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined)
+            throw error
         } finally {
             client.release()
         }
@@ -194,11 +255,15 @@ export class DatabaseService {
     static async revokeCredentials(
         username: string,
         requestId: string,
-        reason: string
+        reason: string,
+        target?: ConnectionTarget
     ): Promise<boolean> {
-        const client = await pool.connect()
+        const database = target?.database ?? process.env.POSTGRES_DATABASE ?? 'glasskiss'
+        const client = await this.poolFor(target).connect()
 
         try {
+            RoleSql.assertUsername(username)
+
             // Terminate all active connections for this user
             await client.query(`
                 SELECT pg_terminate_backend(pid) 
@@ -206,13 +271,19 @@ export class DatabaseService {
                 WHERE usename = $1
             `, [username])
 
-            // Revoke all privileges
-            await client.query(`REVOKE ALL PRIVILEGES ON ALL TABLES IN SCHEMA public FROM ${username}`)
-            await client.query(`REVOKE ALL PRIVILEGES ON ALL SEQUENCES IN SCHEMA public FROM ${username}`)
-            await client.query(`REVOKE CONNECT ON DATABASE glasskiss FROM ${username}`)
+            // A role dropped earlier can still have sessions; killing them was all that was left
+            const role = await client.query('SELECT 1 FROM pg_roles WHERE rolname = $1', [username])
+            if (role.rows.length > 0) {
+                // Policies reference the role, so they must go before it can be dropped
+                await this.dropRowFilterPolicies(client, username)
+
+                // Revoke all privileges, in whichever schemas the scope granted them
+                await client.query(RoleSql.dropOwned(username))
+                await client.query(RoleSql.revokeConnect(database, username))
 
-            // Drop the user role
-            await client.query(`DROP ROLE IF EXISTS ${username}`)
+                // Drop the user role
+                await client.query(RoleSql.dropRole(username))
+            }
 
             // Update tracking
             await client.query(`
@@ -238,26 +309,64 @@ export class DatabaseService {
     }
 
     /**
-     * Execute a query as a specific user (for testing scope enforcement)
+     * Move an existing role's expiry; the password and grants stay as they are
+     */
+    static async extendCredentials(
+        username: string,
+        requestId: string,
+        expiresAt: Date,
+        target?: ConnectionTarget
+    ): Promise<boolean> {
+        const client = await this.poolFor(target).connect()
+
+        try {
+            await client.query('BEGIN')
+
+            // VALID UNTIL and tracking move together, so zombie defense sees no drift
+            await client.query(RoleSql.setValidUntil(username, expiresAt))
+            await client.query(`
+                UPDATE glasskiss_temp_users
+                SET expires_at = $2
+                WHERE username = $1 AND status = 'active'
+            `, [username, expiresAt])
+
+            await client.query(`
+                INSERT INTO glasskiss_audit_log (request_id, username, action, details)
+                VALUES ($1, $2, 'EXTEND', $3)
+            `, [requestId, username, JSON.stringify({ expiresAt: expiresAt.toISOString() })])
+
+            await client.query('COMMIT')
+
+            console.log(`[DATABASE] ✅ Extended ${username} until ${expiresAt.toISOString()}`)
+            return true
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined)
+            console.error(`[DATABASE] ❌ Failed to extend ${username}:`, error)
+            return false
+        } finally {
+            client.release()
+        }
+    }
+
+    /**
+     * Execute a single statement as a specific user
+     * Uses the extended protocol, so multi-statement strings are rejected by the server
      */
     static async executeAsUser(
         username: string,
         password: string,
-        query: string
-    ): Promise<{ success: boolean; rows?: any[]; error?: string }> {
-        const userPool = new Pool({
-            host: process.env.POSTGRES_HOST || 'localhost',
-            port: parseInt(process.env.POSTGRES_PORT || '5432'),
-            database: process.env.POSTGRES_DATABASE || 'glasskiss',
-            user: username,
-            password: password,
-            ssl: process.env.POSTGRES_SSL === 'true' ? { rejectUnauthorized: false } : false,
-        })
+        query: string,
+        target?: ConnectionTarget
+    ): Promise<{ success: boolean; rows?: any[]; rowCount?: number; error?: string }> {
+        const userPool = this.createUserPool(username, password, target)
 
         try {
-            const result = await userPool.query(query)
+            const result = await userPool.query({
+                text: query,
+                queryMode: 'extended',
+            } as pg.QueryConfig)
             await userPool.end()
-            return { success: true, rows: result.rows }
+            return { success: true, rows: result.rows, rowCount: result.rowCount ?? result.rows.length }
         } catch (error: any) {
             await userPool.end()
             return { success: false, error: error.message }
@@ -265,21 +374,299 @@ export class DatabaseService {
     }
 
     /**
-     * Get expired but not revoked credentials (for zombie defense)
+     * Execute a single write as a specific user inside a transaction
+     * Commits only when the real affected row count is within maxRowsAffected,
+     * otherwise rolls back. rowCount covers the outermost statement only, so
+     * callers must not pass data-modifying CTEs (QueryExecutor refuses them)
+     */
+    static async executeWriteAsUser(
+        username: string,
+        password: string,
+        query: string,
+        maxRowsAffected: number,
+        target?: ConnectionTarget
+    ): Promise<{ success: boolean; committed: boolean; limitExceeded: boolean; rowCount: number; rows?: any[]; error?: string }> {
+        const userPool = this.createUserPool(username, password, target)
+        let client: pg.PoolClient | undefined
+
+        try {
+            client = await userPool.connect()
+            await client.query('BEGIN')
+
+            // Extended protocol: exactly one statement can run inside the guard
+            const result = await client.query({
+                text: query,
+                queryMode: 'extended',
+            } as pg.QueryConfig)
+            const rowCount = result.rowCount ?? 0
+
+            if (rowCount > maxRowsAffected) {
+                await client.query('ROLLBACK')
+                console.warn(`[DATABASE] ⚠️ Rolled back write by ${username}: ${rowCount} rows > max ${maxRowsAffected}`)
+                return {
+                    success: false,
+                    committed: false,
+                    limitExceeded: true,
+                    rowCount,
+                    error: `Write affected ${rowCount} rows, exceeds max ${maxRowsAffected}. Transaction rolled back.`,
+                }
+            }
+
+            await client.query('COMMIT')
+            return { success: true, committed: true, limitExceeded: false, rowCount, rows: result.rows }
+        } catch (error: any) {
+            await client?.query('ROLLBACK').catch(() => undefined)
+            return { success: false, committed: false, limitExceeded: false, rowCount: 0, error: error.message }
+        } finally {
+            client?.release()
+            await userPool.end()
+        }
+    }
+
+    /**
+     * Get the planner's JSON plan for a single statement without executing it
+     * Runs in a read-only transaction over the extended protocol, so the text
+     * can never smuggle in a second statement
      */
-    static async getZombieCredentials(): Promise<string[]> {
+    static async explainQuery(query: string, target?: ConnectionTarget): Promise<any> {
+        const client = await this.poolFor(target).connect()
+        try {
+            await client.query('BEGIN READ ONLY')
+            await client.query(`SET LOCAL statement_timeout = '5s'`)
+            const result = await client.query({
+                text: `EXPLAIN (FORMAT JSON) ${query}`,
+                queryMode: 'extended',
+            } as pg.QueryConfig)
+            return result.rows[0]['QUERY PLAN'][0].Plan
+        } finally {
+            await client.query('ROLLBACK').catch(() => undefined)
+            client.release()
+        }
+    }
+
+    /**
+     * Check whether a login role still exists
+     */
+    static async roleExists(username: string, target?: ConnectionTarget): Promise<boolean> {
+        const result = await this.poolFor(target).query('SELECT 1 FROM pg_roles WHERE rolname = $1', [username])
+        return result.rows.length > 0
+    }
+
+    /**
+     * List every role GlassKiss manages (gk_ or temp_ prefix), tracked or not
+     */
+    static async listManagedRoles(target?: ConnectionTarget): Promise<ManagedRole[]> {
+        const result = await this.poolFor(target).query(`
+            SELECT r.rolname AS username, t.request_id, COALESCE(t.expires_at, r.rolvaliduntil) AS expires_at
+            FROM pg_roles r
+            LEFT JOIN glasskiss_temp_users t ON t.username = r.rolname AND t.status = 'active'
+            WHERE r.rolname LIKE 'gk\\_%' OR r.rolname LIKE 'temp\\_%'
+        `)
+        return result.rows.map(r => ({
+            username: r.username,
+            requestId: r.request_id ?? undefined,
+            expiresAt: r.expires_at ? new Date(r.expires_at).toISOString() : undefined,
+        }))
+    }
+
+    /**
+     * Mark tracked users whose role no longer exists as revoked
+     * Returns the usernames that were closed
+     */
+    static async closeMissingRoles(target?: ConnectionTarget): Promise<string[]> {
+        const result = await this.poolFor(target).query(`
+            UPDATE glasskiss_temp_users t
+            SET status = 'revoked', revoked_at = NOW()
+            WHERE t.status = 'active'
+              AND NOT EXISTS (SELECT 1 FROM pg_roles r WHERE r.rolname = t.username)
+            RETURNING t.username
+        `)
+        return result.rows.map(r => r.username)
+    }
+
+    /**
+     * Write an entry to the audit log that is not tied to one credential
+     */
+    static async recordAudit(
+        requestId: string,
+        action: string,
+        details: Record<string, unknown>,
+        target?: ConnectionTarget
+    ): Promise<void> {
+        await this.poolFor(target).query(`
+            INSERT INTO glasskiss_audit_log (request_id, action, details)
+            VALUES ($1, $2, $3)
+        `, [requestId, action, JSON.stringify(details)])
+    }
+
+    /**
+     * Run fn holding a session advisory lock on key in the GlassKiss database
+     * Waits up to waitMs for it; Postgres releases it if this process dies
+     */
+    static async withAdvisoryLock<T>(key: string, waitMs: number, fn: () => Promise<T>): Promise<T> {
         const client = await pool.connect()
+        try {
+            await client.query(`SET lock_timeout = ${Math.max(1, Math.floor(waitMs))}`)
+            await client.query('SELECT pg_advisory_lock(hashtextextended($1, 0))', [key])
+            await client.query('RESET lock_timeout')
+        } catch (error) {
+            // Drop the connection rather than return it with lock_timeout set
+            client.release(true)
+            throw new Error(`Could not lock ${key}: ${error instanceof Error ? error.message : error}`)
+        }
+
+        try {
+            return await fn()
+        } finally {
+            try {
+                await client.query('SELECT pg_advisory_unlock(hashtextextended($1, 0))', [key])
+                client.release()
+            } catch {
+                // Closing the connection releases the lock as well
+                client.release(true)
+            }
+        }
+    }
+
+    /**
+     * Get credentials expired longer than the grace period but not revoked
+     * (for zombie defense)
+     */
+    static async getZombieCredentials(target?: ConnectionTarget): Promise<string[]> {
+        const client = await this.poolFor(target).connect()
         try {
             const result = await client.query(`
                 SELECT username FROM glasskiss_temp_users 
-                WHERE status = 'active' AND expires_at < NOW()
-            `)
+                WHERE status = 'active' AND expires_at < NOW() - make_interval(secs => $1)
+            `, [ZOMBIE_GRACE_SECONDS])
             return result.rows.map(r => r.username)
         } finally {
             client.release()
         }
     }
 
+    /**
+     * Find roles that outlived their grant: expired but still present,
+     * backends still connected after revocation or expiry, and VALID UNTIL
+     * moved away from what GlassKiss set. Expiry counts once it is older than
+     * ZOMBIE_GRACE_SECONDS, leaving the sweeper time to revoke
+     */
+    static async findZombieRoles(target?: ConnectionTarget): Promise<ZombieRole[]> {
+        const db = this.poolFor(target)
+        const zombies: ZombieRole[] = []
+
+        // Expired per tracking or per VALID UNTIL, and the role is still there
+        const trackedExpired = new Set(await this.getZombieCredentials(target))
+        const expired = await db.query(`
+            SELECT r.rolname AS username, r.rolvaliduntil, t.request_id
+            FROM pg_roles r
+            LEFT JOIN glasskiss_temp_users t ON t.username = r.rolname
+            WHERE (r.rolname LIKE 'gk\\_%' OR r.rolname LIKE 'temp\\_%')
+              AND (r.rolvaliduntil < NOW() - make_interval(secs => $2) OR r.rolname = ANY($1))
+        `, [[...trackedExpired], ZOMBIE_GRACE_SECONDS])
+        for (const row of expired.rows) {
+            zombies.push({
+                username: row.username,
+                requestId: row.request_id ?? undefined,
+                kind: 'expired_role',
+                details: `Role still exists after expiry (VALID UNTIL ${this.formatValidUntil(row.rolvaliduntil)})`,
+            })
+        }
+
+        // VALID UNTIL does not stop open sessions, and neither does dropping the role
+        const live = await db.query(`
+            SELECT a.usename AS username, t.request_id, array_agg(a.pid) AS pids,
+                   (r.oid IS NULL) AS dropped, t.status
+            FROM pg_stat_activity a
+            LEFT JOIN pg_roles r ON r.rolname = a.usename
+            LEFT JOIN glasskiss_temp_users t ON t.username = a.usename
+            WHERE (a.usename LIKE 'gk\\_%' OR a.usename LIKE 'temp\\_%')
+              AND (r.oid IS NULL OR t.status = 'revoked' OR r.rolvaliduntil < NOW() - make_interval(secs => $1))
+            GROUP BY a.usename, t.request_id, r.oid, t.status
+        `, [ZOMBIE_GRACE_SECONDS])
+        for (const row of live.rows) {
+            zombies.push({
+                username: row.username,
+                requestId: row.request_id ?? undefined,
+                kind: 'live_session',
+                details: `${row.pids.length} backend(s) still connected after ${row.dropped || row.status === 'revoked' ? 'revocation' : 'expiry'}`,
+                pids: row.pids,
+            })
+        }
+
+        // Compared here rather than in SQL: expires_at has no time zone, and node
+        // reads it back in the same zone it was written in
+        const active = await db.query(`
+            SELECT t.username, t.request_id, t.expires_at, r.rolvaliduntil
+            FROM glasskiss_temp_users t
+            JOIN pg_roles r ON r.rolname = t.username
+            WHERE t.status = 'active'
+        `)
+        for (const row of active.rows) {
+            const expected = new Date(row.expires_at).getTime()
+            const actual = row.rolvaliduntil instanceof Date ? row.rolvaliduntil.getTime() : Infinity
+            if (!(Math.abs(actual - expected) <= 1000)) {
+                zombies.push({
+                    username: row.username,
+                    requestId: row.request_id,
+                    kind: 'valid_until_changed',
+                    details: `VALID UNTIL is ${this.formatValidUntil(row.rolvaliduntil)}, expected ${new Date(row.expires_at).toISOString()}`,
+                })
+            }
+        }
+
+        return zombies
+    }
+
+    /**
+     * What managed roles are running or have run, straight from the server:
+     * the current/last statement of every backend, plus pg_stat_statements
+     * totals when the extension is installed
+     */
+    static async sampleRoleActivity(target?: ConnectionTarget): Promise<ObservedQuery[]> {
+        const db = this.poolFor(target)
+
+        const activity = await db.query(`
+            SELECT usename AS username, pid, query
+            FROM pg_stat_activity
+            WHERE (usename LIKE 'gk\\_%' OR usename LIKE 'temp\\_%')
+              AND query <> ''
+        `)
+        const observed: ObservedQuery[] = activity.rows.map(row => ({
+            username: row.username,
+            query: row.query,
+            source: 'pg_stat_activity',
+            pid: row.pid,
+        }))
+
+        const extension = await db.query(`SELECT 1 FROM pg_extension WHERE extname = 'pg_stat_statements'`)
+        if (extension.rows.length === 0) {
+            return observed
+        }
+
+        try {
+            const statements = await db.query(`
+                SELECT r.rolname AS username, s.query, s.calls
+                FROM pg_stat_statements s
+                JOIN pg_roles r ON r.oid = s.userid
+                WHERE r.rolname LIKE 'gk\\_%' OR r.rolname LIKE 'temp\\_%'
+            `)
+            for (const row of statements.rows) {
+                observed.push({
+                    username: row.username,
+                    query: row.query,
+                    source: 'pg_stat_statements',
+                    calls: Number(row.calls),
+                })
+            }
+        } catch (error) {
+            // Installed but not in shared_preload_libraries: the view cannot be read
+            console.warn('[DATABASE] ⚠️ pg_stat_statements unavailable:', error)
+        }
+
+        return observed
+    }
+
     /**
      * Log a command execution
      */
@@ -288,9 +675,10 @@ export class DatabaseService {
         sessionId: string,
         command: string,
         blocked: boolean,
-        reason?: string
+        reason?: string,
+        target?: ConnectionTarget
     ): Promise<void> {
-        const client = await pool.connect()
+        const client = await this.poolFor(target).connect()
         try {
             await client.query(`
                 INSERT INTO glasskiss_audit_log (request_id, session_id, action, details)
@@ -305,18 +693,215 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Grant table privileges from the scope: allowedOperations on allowedTables,
+     * narrowed to SELECT for READ_ONLY requests and to allowedColumns when listed.
+     * No scope means no table privileges at all.
+     * Returns the grants for the audit log.
+     */
+    private static async grantScopedPrivileges(
+        client: pg.PoolClient,
+        username: string,
+        accessLevel: string,
+        accessScope?: AccessScope
+    ): Promise<string[]> {
+        if (!accessScope) {
+            console.warn(`[DATABASE] ⚠️ No access scope for ${username}, granting no table privileges`)
+            return []
+        }
+
+        const role = RoleSql.role(username)
+        const operations = accessScope.allowedOperations
+            .map(op => op.toUpperCase())
+            .filter(op => GRANTABLE_OPERATIONS.includes(op))
+            .filter(op => accessLevel !== 'READ_ONLY' || op === 'SELECT')
+
+        const grants: string[] = []
+        const schemas = new Set<string>()
+
+        for (const table of accessScope.allowedTables) {
+            const [schema, name] = this.splitTableName(table)
+            const target = `${escapeIdentifier(schema)}.${escapeIdentifier(name)}`
+            const columns = accessScope.allowedColumns?.[table]
+
+            if (!schemas.has(schema)) {
+                await client.query(`GRANT USAGE ON SCHEMA ${escapeIdentifier(schema)} TO ${role}`)
+                schemas.add(schema)
+            }
+
+            for (const operation of operations) {
+                // DELETE has no column-level form
+                const columnList = columns?.length && operation !== 'DELETE'
+                    ? ` (${columns.map(escapeIdentifier).join(', ')})`
+                    : ''
+                await client.query(`GRANT ${operation}${columnList} ON ${target} TO ${role}`)
+                grants.push(`${operation}${columnList ? ` (${columns!.join(', ')})` : ''} ON ${table}`)
+            }
+
+            // Inserts into serial / identity columns need the backing sequences
+            if (operations.includes('INSERT')) {
+                const sequences = await client.query(`
+                    SELECT seq_ns.nspname AS schema, seq.relname AS name
+                    FROM pg_depend d
+                    JOIN pg_class seq ON seq.oid = d.objid AND seq.relkind = 'S'
+                    JOIN pg_namespace seq_ns ON seq_ns.oid = seq.relnamespace
+                    JOIN pg_class tbl ON tbl.oid = d.refobjid
+                    JOIN pg_namespace tbl_ns ON tbl_ns.oid = tbl.relnamespace
+                    WHERE tbl_ns.nspname = $1 AND tbl.relname = $2 AND d.deptype IN ('a', 'i')
+                `, [schema, name])
+
+                for (const sequence of sequences.rows) {
+                    await client.query(
+                        `GRANT USAGE ON SEQUENCE ${escapeIdentifier(sequence.schema)}.${escapeIdentifier(sequence.name)} TO ${role}`
+                    )
+                }
+            }
+        }
+
+        console.log(`[DATABASE] 🔑 Grants for ${username}: ${grants.length > 0 ? grants.join('; ') : 'none'}`)
+        return grants
+    }
+
+    /**
+     * Create a RESTRICTIVE RLS policy per scoped table so the temp role only
+     * ever sees and writes rows matching its rowFilters.
+     * Filters are parsed and rebuilt from `column = value` / `column IN (...)`
+     * conditions; anything else fails provisioning.
+     * Returns the tables that received a policy.
+     */
+    private static async applyRowFilterPolicies(
+        client: pg.PoolClient,
+        username: string,
+        rowFilters: Record<string, string>
+    ): Promise<string[]> {
+        const tables: string[] = []
+
+        for (const [table, filter] of Object.entries(rowFilters)) {
+            const predicates = SqlParser.parseFilter(filter)
+            if (!predicates || predicates.length === 0) {
+                throw new Error(`Row filter for ${table} is not a simple column condition: ${filter}`)
+            }
+
+            const [schema, name] = this.splitTableName(table)
+            const target = `${escapeIdentifier(schema)}.${escapeIdentifier(name)}`
+
+            const existing = await client.query(`
+                SELECT c.relrowsecurity FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p')
+            `, [schema, name])
+
+            if (existing.rows.length === 0) {
+                throw new Error(`Scoped table ${table} does not exist`)
+            }
+
+            if (!existing.rows[0].relrowsecurity) {
+                await client.query(`ALTER TABLE ${target} ENABLE ROW LEVEL SECURITY`)
+                await client.query(`
+                    CREATE POLICY ${escapeIdentifier(RLS_BASELINE_POLICY)} ON ${target}
+                    AS PERMISSIVE FOR ALL TO PUBLIC USING (true) WITH CHECK (true)
+                `)
+            }
+
+            const condition = this.policyCondition(predicates)
+            await client.query(`
+                CREATE POLICY ${escapeIdentifier(`${username}_scope`)} ON ${target}
+                AS RESTRICTIVE FOR ALL TO ${RoleSql.role(username)}
+                USING (${condition}) WITH CHECK (${condition})
+            `)
+
+            console.log(`[DATABASE] 🔒 RLS policy for ${username} on ${table}: ${condition}`)
+            tables.push(table)
+        }
+
+        return tables
+    }
+
+    /**
+     * Drop every policy that targets the role. Tables where GlassKiss switched
+     * RLS on are restored once no temp-role policy is left on them.
+     */
+    private static async dropRowFilterPolicies(client: pg.PoolClient, username: string): Promise<void> {
+        const policies = await client.query(`
+            SELECT schemaname, tablename, policyname FROM pg_policies
+            WHERE $1 = ANY(roles)
+        `, [username])
+
+        for (const policy of policies.rows) {
+            const target = `${escapeIdentifier(policy.schemaname)}.${escapeIdentifier(policy.tablename)}`
+            await client.query(`DROP POLICY IF EXISTS ${escapeIdentifier(policy.policyname)} ON ${target}`)
+
+            const remaining = await client.query(`
+                SELECT policyname FROM pg_policies
+                WHERE schemaname = $1 AND tablename = $2
+            `, [policy.schemaname, policy.tablename])
+
+            const names = remaining.rows.map(r => r.policyname)
+            if (names.length === 1 && names[0] === RLS_BASELINE_POLICY) {
+                await client.query(`DROP POLICY ${escapeIdentifier(RLS_BASELINE_POLICY)} ON ${target}`)
+                await client.query(`ALTER TABLE ${target} DISABLE ROW LEVEL SECURITY`)
+            }
+        }
+    }
+
+    /**
+     * SQL condition for a policy; values are quoted as literals and cast by PostgreSQL
+     */
+    private static policyCondition(predicates: WherePredicate[]): string {
+        return predicates
+            .map(predicate => predicate.operator === 'IN'
+                ? `${escapeIdentifier(predicate.column)} IN (${predicate.values.map(escapeLiteral).join(', ')})`
+                : `${escapeIdentifier(predicate.column)} = ${escapeLiteral(predicate.values[0])}`)
+            .join(' AND ')
+    }
+
     // Helper methods
-    private static generateSecurePassword(): string {
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%'
-        let password = ''
-        for (let i = 0; i < 24; i++) {
-            password += chars.charAt(Math.floor(Math.random() * chars.length))
+    /**
+     * rolvaliduntil is null when unset and Infinity for 'infinity'
+     */
+    private static formatValidUntil(value: unknown): string {
+        return value instanceof Date && !isNaN(value.getTime()) ? value.toISOString() : 'infinity'
+    }
+
+    private static poolFor(target?: ConnectionTarget): pg.Pool {
+        if (!target) {
+            return pool
         }
-        return password
+
+        const key = `${target.host}:${target.port}/${target.database}`
+        let targetPool = targetPools.get(key)
+
+        if (!targetPool) {
+            targetPool = new Pool({
+                host: target.host,
+                port: target.port,
+                database: target.database,
+                user: process.env.POSTGRES_USER || 'admin',
+                password: process.env.POSTGRES_PASSWORD || 'password',
+                ssl: target.ssl ? { rejectUnauthorized: false } : false,
+                max: 5,
+                idleTimeoutMillis: 30000,
+            })
+            targetPools.set(key, targetPool)
+        }
+
+        return targetPool
     }
 
-    private static generateSessionId(): string {
-        return Math.random().toString(36).substring(2) + Date.now().toString(36)
+    private static splitTableName(table: string): [string, string] {
+        const [schema, name] = table.includes('.') ? table.split('.', 2) : ['public', table]
+        return [schema, name]
+    }
+
+    private static createUserPool(username: string, password: string, target?: ConnectionTarget): pg.Pool {
+        return new Pool({
+            host: target?.host ?? (process.env.POSTGRES_HOST || 'localhost'),
+            port: target?.port ?? parseInt(process.env.POSTGRES_PORT || '5432'),
+            database: target?.database ?? (process.env.POSTGRES_DATABASE || 'glasskiss'),
+            user: username,
+            password: password,
+            ssl: (target?.ssl ?? process.env.POSTGRES_SSL === 'true') ? { rejectUnauthorized: false } : false,
+        })
     }
 }
 
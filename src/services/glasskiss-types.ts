@@ -14,6 +14,7 @@ export const accessScopeSchema = z.object({
   allowedTables: z.array(z.string()),
   allowedOperations: z.array(z.string()),
   rowFilters: z.record(z.string()),  // table -> WHERE condition
+  allowedColumns: z.record(z.string(), z.array(z.string())).optional(),  // table -> columns, when the scope names them
   maxRowsAffected: z.number(),
   extractedEntities: z.array(extractedEntitySchema),
   scopeDescription: z.string(),
@@ -22,8 +23,8 @@ export const accessScopeSchema = z.object({
 export type AccessScope = z.infer<typeof accessScopeSchema>
 
 // Access Request Schema
+// The requester is whoever the caller's user token belongs to, never the body
 export const accessRequestSchema = z.object({
-  requester: z.string().min(1, 'Requester is required'),
   resource: z.string().min(1, 'Resource is required'),
   accessLevel: z.enum(['READ_ONLY', 'READ_WRITE']),
   reason: z.string().min(10, 'Reason must be at least 10 characters'),
@@ -32,6 +33,71 @@ export const accessRequestSchema = z.object({
 
 export type AccessRequest = z.infer<typeof accessRequestSchema>
 
+// Session Extension Schema - extra time on an active grant, approved like the grant itself
+export const sessionExtensionSchema = z.object({
+  id: z.string(),
+  minutes: z.number(),
+  justification: z.string(),
+  riskScore: z.number(),
+  riskFactors: z.array(z.string()),
+  requiredApprovals: z.number(),
+  approvers: z.array(z.string()),    // who may approve: the original approvers
+  approvals: z.array(z.string()),    // who has approved so far
+  status: z.enum(['pending', 'approved', 'rejected', 'applied']),
+  requestedAt: z.string(),
+  decidedAt: z.string().optional(),
+  decidedBy: z.string().optional(),
+  newExpiresAt: z.string().optional(),
+})
+
+export type SessionExtension = z.infer<typeof sessionExtensionSchema>
+
+// Request Status Schema - allowed moves are in RequestStateMachine
+export const requestStatusSchema = z.enum([
+  'pending_risk',
+  'pending_approval',
+  'approved',
+  'active',
+  'revoked',
+  'rejected',
+  'cancelled',
+  'expired',
+  'revocation_failed',  // revoke was attempted and failed; retried until it succeeds
+])
+
+export type RequestStatus = z.infer<typeof requestStatusSchema>
+
+// Status Change Schema - one entry per transition, oldest first
+export const statusChangeSchema = z.object({
+  from: requestStatusSchema.nullable(),  // null for the entry that created the request
+  to: requestStatusSchema,
+  actor: z.string(),
+  at: z.string(),
+  reason: z.string().optional(),
+})
+
+export type StatusChange = z.infer<typeof statusChangeSchema>
+
+// Approval SLA Schema - when a pending approval is re-pinged, escalated and expired
+export const approvalSlaSchema = z.object({
+  remindAt: z.string(),
+  escalateAt: z.string(),
+  expireAt: z.string(),
+  escalateTo: z.string(),  // directory selector for the next tier, e.g. oncall:security
+})
+
+export type ApprovalSla = z.infer<typeof approvalSlaSchema>
+
+// Approval SLA Event Schema - one entry per step taken on a pending approval
+export const approvalSlaEventSchema = z.object({
+  step: z.enum(['reminder', 'escalation', 'expiry']),
+  at: z.string(),
+  notified: z.array(z.string()),  // directory ids pinged by the step
+  details: z.string().optional(),
+})
+
+export type ApprovalSlaEvent = z.infer<typeof approvalSlaEventSchema>
+
 // Access State Schema
 export const accessStateSchema = z.object({
   id: z.string(),
@@ -41,32 +107,42 @@ export const accessStateSchema = z.object({
   reason: z.string(),
   duration: z.number(),
   riskScore: z.number(),
-  status: z.enum([
-    'pending_risk',
-    'pending_approval',
-    'approved',
-    'rejected',
-    'active',
-    'revoked',
-  ]),
+  status: requestStatusSchema,
+  statusHistory: z.array(statusChangeSchema).optional(),  // absent on requests created before it existed
   approvers: z.array(z.string()),
   requiredApprovals: z.number(),
   createdAt: z.string(),
+  requesterTokenHash: z.string().optional(),  // sha256 of the bearer token issued to the requester
+  extensions: z.array(sessionExtensionSchema).optional(),
   approvedAt: z.string().optional(),
   revokedAt: z.string().optional(),
   revokeReason: z
-    .enum(['timer_expired', 'forced', 'anomaly_detected', 'manual'])
+    .enum(['timer_expired', 'forced', 'anomaly_detected', 'manual', 'reconciled', 'zombie', 'bypass_detected'])
     .optional(),
+  revokedBy: z.string().optional(),       // requester or admin who ended the session early
+  revokeDetails: z.string().optional(),
+  approvalSlaEvents: z.array(approvalSlaEventSchema).optional(),  // reminders, escalation and expiry while pending approval
 })
 
 export type AccessState = z.infer<typeof accessStateSchema>
 
+// Sealed Secret Schema - envelope encrypted: a per-secret data key encrypts
+// the value and the local master key encrypts the data key
+export const sealedSecretSchema = z.object({
+  keyId: z.string(),         // which master key wrapped the data key
+  wrappedKey: z.string(),    // base64 iv | tag | encrypted data key
+  ciphertext: z.string(),    // base64 iv | tag | encrypted value
+})
+
+export type SealedSecret = z.infer<typeof sealedSecretSchema>
+
 // Credentials Schema
 export const credentialsSchema = z.object({
   id: z.string(),
   requestId: z.string(),
   username: z.string(),
-  password: z.string(),
+  passwordEnvelope: sealedSecretSchema,
+  retrievedAt: z.string().optional(),  // set once the requester has fetched the password
   resource: z.string(),
   expiresAt: z.string(),
   createdAt: z.string(),
@@ -76,6 +152,42 @@ export const credentialsSchema = z.object({
 
 export type Credentials = z.infer<typeof credentialsSchema>
 
+// Revocation Deadline Schema - persisted so a restart cannot lose a pending revocation
+export const revocationDeadlineSchema = z.object({
+  id: z.string(),
+  requestId: z.string(),
+  revokeAt: z.string(),
+  status: z.enum(['pending', 'fired', 'cancelled', 'completed']),
+  scheduledAt: z.string(),
+  firedAt: z.string().optional(),
+  cancelledAt: z.string().optional(),  // ended early by a manual or forced revoke
+  completedAt: z.string().optional(),
+  attempts: z.number(),
+  retry: z.object({  // a revocation that failed, fired again with the same reason
+    reason: z.enum(['timer_expired', 'forced', 'anomaly_detected', 'manual', 'zombie', 'bypass_detected']),
+    details: z.string().optional(),
+    revokedBy: z.string().optional(),
+    error: z.string(),
+  }).optional(),
+})
+
+export type RevocationDeadline = z.infer<typeof revocationDeadlineSchema>
+
+// Freeze State Schema - the global kill switch; while frozen no new access is granted
+export const freezeStateSchema = z.object({
+  id: z.string(),                    // freeze id, also the request_id of its audit entries
+  frozen: z.boolean(),
+  reason: z.string(),
+  frozenBy: z.string(),
+  frozenAt: z.string(),
+  revokedRequestIds: z.array(z.string()),
+  liftedBy: z.string().optional(),
+  liftedAt: z.string().optional(),
+  liftReason: z.string().optional(),
+})
+
+export type FreezeState = z.infer<typeof freezeStateSchema>
+
 // Session Log Schema
 export const sessionLogSchema = z.object({
   id: z.string(),
@@ -106,10 +218,45 @@ export const auditReportSchema = z.object({
   flaggedCommands: z.number(),
   status: z.string(),
   revokeReason: z.string().optional(),
+  revokedBy: z.string().optional(),
+  revokeDetails: z.string().optional(),
 })
 
 export type AuditReport = z.infer<typeof auditReportSchema>
 
+// Approval Rule - the M-of-N policy language: a quorum of distinct approvers
+// from a named group or a list of users, combined with all (AND) and any (OR)
+export type ApprovalRule =
+  | { group: string; quorum: number }
+  | { users: string[]; quorum: number }
+  | { all: ApprovalRule[] }
+  | { any: ApprovalRule[] }
+
+export const approvalRuleSchema: z.ZodType<ApprovalRule> = z.lazy(() => z.union([
+  z.object({ group: z.string(), quorum: z.number().int().min(1) }),
+  z.object({ users: z.array(z.string()), quorum: z.number().int().min(1) }),
+  z.object({ all: z.array(approvalRuleSchema).min(1) }),
+  z.object({ any: z.array(approvalRuleSchema).min(1) }),
+]))
+
+// Forbidden Pairing - an approver who may never approve for a requester;
+// each side is a username or group:<name>
+export const forbiddenPairingSchema = z.object({
+  requester: z.string(),
+  approver: z.string(),
+  reason: z.string().optional(),
+})
+
+export type ForbiddenPairing = z.infer<typeof forbiddenPairingSchema>
+
+// Approval Policy Schema - what a request at one risk level needs
+export const approvalPolicySchema = z.object({
+  rule: approvalRuleSchema,
+  forbiddenPairings: z.array(forbiddenPairingSchema).optional(),
+})
+
+export type ApprovalPolicy = z.infer<typeof approvalPolicySchema>
+
 // Approval Request Schema
 export const approvalRequestSchema = z.object({
   id: z.string(),
@@ -119,10 +266,15 @@ export const approvalRequestSchema = z.object({
   accessLevel: z.string(),
   reason: z.string(),
   riskScore: z.number(),
-  status: z.enum(['pending', 'approved', 'rejected']),
+  status: z.enum(['pending', 'approved', 'rejected', 'expired', 'cancelled']),
   approvers: z.array(z.string()),
   requiredApprovals: z.number(),
-  currentApprovals: z.number(),
+  currentApprovals: z.number(),            // always approvedBy.length
+  approvedBy: z.array(z.string()),         // distinct approver identities
+  version: z.number(),                     // bumped on every write
+  policy: approvalPolicySchema.optional(),  // evaluated on every approval; absent: count to requiredApprovals
+  sla: approvalSlaSchema.optional(),       // absent on records created before it existed
+  slaEvents: z.array(approvalSlaEventSchema).optional(),
   timestamp: z.string(),
 })
 
@@ -0,0 +1,131 @@
+/**
+ * Kill Switch Service
+ * Global emergency freeze. While it is on, AccessRequestAPI refuses new
+ * requests and approved requests are not provisioned; FreezeSessions revokes
+ * every live credential when it is turned on.
+ */
+
+import { randomUUID } from 'crypto'
+import { FlowContext } from 'motia'
+import { CredentialProviders } from './credential-provider'
+import { FreezeState } from './glasskiss-types'
+import { StateLock } from './state-lock'
+
+type State = FlowContext['state']
+
+const FREEZE_GROUP = 'kill-switch'
+const FREEZE_KEY = 'global'
+
+export class KillSwitch {
+    static async get(state: State): Promise<FreezeState | null> {
+        return state.get<FreezeState>(FREEZE_GROUP, FREEZE_KEY)
+    }
+
+    static async isFrozen(state: State): Promise<boolean> {
+        return (await this.get(state))?.frozen === true
+    }
+
+    /**
+     * Turn the freeze on and write FREEZE to the audit log
+     * Freezing again while frozen keeps the original freeze, so its sessions
+     * can be swept a second time
+     */
+    static async freeze(
+        state: State,
+        actor: string,
+        reason: string
+    ): Promise<{ freeze: FreezeState; alreadyFrozen: boolean }> {
+        const result = await this.withFreeze(state, async () => {
+            const current = await this.get(state)
+            if (current?.frozen) {
+                return { freeze: current, alreadyFrozen: true }
+            }
+
+            const freeze: FreezeState = {
+                id: randomUUID(),
+                frozen: true,
+                reason,
+                frozenBy: actor,
+                frozenAt: new Date().toISOString(),
+                revokedRequestIds: [],
+            }
+
+            await state.set(FREEZE_GROUP, FREEZE_KEY, freeze)
+            return { freeze, alreadyFrozen: false }
+        })
+
+        if (!result.alreadyFrozen) {
+            await this.recordAudit(result.freeze.id, 'FREEZE', { actor, reason })
+        }
+        return result
+    }
+
+    /**
+     * Sessions revoked under the freeze, for its record and the Slack notice
+     */
+    static async recordRevoked(state: State, requestIds: string[]): Promise<FreezeState | null> {
+        return this.withFreeze(state, async () => {
+            const current = await this.get(state)
+            if (!current) {
+                return null
+            }
+
+            const updated: FreezeState = {
+                ...current,
+                revokedRequestIds: [...new Set([...current.revokedRequestIds, ...requestIds])],
+            }
+            await state.set(FREEZE_GROUP, FREEZE_KEY, updated)
+            return updated
+        })
+    }
+
+    /**
+     * Lift the freeze and write UNFREEZE to the audit log
+     * Returns null when there was no freeze to lift
+     */
+    static async lift(state: State, actor: string, reason?: string): Promise<FreezeState | null> {
+        const lifted = await this.withFreeze(state, async () => {
+            const current = await this.get(state)
+            if (!current?.frozen) {
+                return null
+            }
+
+            const next: FreezeState = {
+                ...current,
+                frozen: false,
+                liftedBy: actor,
+                liftedAt: new Date().toISOString(),
+                liftReason: reason,
+            }
+
+            await state.set(FREEZE_GROUP, FREEZE_KEY, next)
+            return next
+        })
+
+        if (lifted) {
+            await this.recordAudit(lifted.id, 'UNFREEZE', {
+                actor,
+                reason,
+                frozenAt: lifted.frozenAt,
+                revokedRequestIds: lifted.revokedRequestIds,
+            })
+        }
+        return lifted
+    }
+
+    // Freeze, lift and the revoked list all read-modify-write the one record
+    private static withFreeze<T>(state: State, fn: () => Promise<T>): Promise<T> {
+        return StateLock.withLock(state, FREEZE_GROUP, FREEZE_KEY, fn)
+    }
+
+    // Every provider's audit log gets the entry; one failing does not stop the rest
+    private static async recordAudit(freezeId: string, action: string, details: Record<string, unknown>): Promise<void> {
+        for (const provider of CredentialProviders.all()) {
+            try {
+                await provider.recordAudit(freezeId, action, details)
+            } catch (error) {
+                console.error(`[KILL SWITCH] ❌ Failed to write ${action} to ${provider.name} audit log:`, error)
+            }
+        }
+    }
+}
@@ -0,0 +1,303 @@
+/**
+ * PostgreSQL Wire Protocol Service
+ * Framing, parsing and building of frontend/backend protocol v3 messages
+ * plus the client side of cleartext, MD5 and SCRAM-SHA-256 authentication
+ */
+
+import { createHash, createHmac, pbkdf2Sync, randomBytes, timingSafeEqual } from 'crypto'
+
+export const PROTOCOL_VERSION_3 = 196608
+export const SSL_REQUEST_CODE = 80877103
+export const GSSENC_REQUEST_CODE = 80877104
+export const CANCEL_REQUEST_CODE = 80877102
+
+// Guard against a peer announcing a huge message and exhausting memory
+const MAX_MESSAGE_LENGTH = 64 * 1024 * 1024
+
+export interface WireMessage {
+    type: string      // '' for untyped startup-phase messages
+    body: Buffer
+    raw: Buffer       // complete message as received, for relaying unchanged
+}
+
+export interface ErrorFields {
+    severity: 'ERROR' | 'FATAL'
+    code: string      // SQLSTATE
+    message: string
+    detail?: string
+    hint?: string
+}
+
+/**
+ * Incremental message reader for one direction of a connection.
+ * Startup-phase messages have no type byte; everything after does.
+ */
+export class MessageReader {
+    private buffer: Buffer = Buffer.alloc(0)
+
+    constructor(private untyped = false) {}
+
+    push(chunk: Buffer): void {
+        this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk])
+    }
+
+    /**
+     * Switch between untyped (startup) and typed framing
+     */
+    setUntyped(untyped: boolean): void {
+        this.untyped = untyped
+    }
+
+    /**
+     * Next complete message, or null when more bytes are needed
+     */
+    next(): WireMessage | null {
+        const headerLength = this.untyped ? 4 : 5
+        if (this.buffer.length < headerLength) return null
+
+        const length = this.buffer.readInt32BE(headerLength - 4)
+        if (length < 4 || length > MAX_MESSAGE_LENGTH) {
+            throw new Error(`Invalid message length ${length}`)
+        }
+
+        const total = length + headerLength - 4
+        if (this.buffer.length < total) return null
+
+        const raw = this.buffer.subarray(0, total)
+        this.buffer = this.buffer.subarray(total)
+
+        return {
+            type: this.untyped ? '' : String.fromCharCode(raw[0]),
+            body: raw.subarray(headerLength),
+            raw,
+        }
+    }
+}
+
+export class PgWireProtocol {
+    // ========================================
+    // PARSING
+    // ========================================
+
+    /**
+     * Read a null-terminated string starting at offset
+     */
+    static readCString(buffer: Buffer, offset: number): { value: string; next: number } {
+        const end = buffer.indexOf(0, offset)
+        if (end === -1) {
+            throw new Error('Unterminated string in message')
+        }
+        return { value: buffer.toString('utf8', offset, end), next: end + 1 }
+    }
+
+    /**
+     * Parse a startup-phase message into its request code and parameters
+     */
+    static parseStartup(body: Buffer): { code: number; params: Record<string, string> } {
+        const code = body.readInt32BE(0)
+        const params: Record<string, string> = {}
+
+        if (code !== PROTOCOL_VERSION_3) {
+            return { code, params }
+        }
+
+        let offset = 4
+        while (offset < body.length && body[offset] !== 0) {
+            const key = this.readCString(body, offset)
+            const value = this.readCString(body, key.next)
+            params[key.value] = value.value
+            offset = value.next
+        }
+
+        return { code, params }
+    }
+
+    /**
+     * SQL text of a simple Query ('Q') message
+     */
+    static parseQuery(body: Buffer): string {
+        return this.readCString(body, 0).value
+    }
+
+    /**
+     * Statement name and SQL text of an extended-protocol Parse ('P') message
+     */
+    static parseParse(body: Buffer): { name: string; query: string } {
+        const name = this.readCString(body, 0)
+        const query = this.readCString(body, name.next)
+        return { name: name.value, query: query.value }
+    }
+
+    /**
+     * Password ('p') message sent in answer to a cleartext request
+     */
+    static parsePassword(body: Buffer): string {
+        return this.readCString(body, 0).value
+    }
+
+    // ========================================
+    // BUILDING
+    // ========================================
+
+    /**
+     * Frame a typed message
+     */
+    static message(type: string, body: Buffer = Buffer.alloc(0)): Buffer {
+        const header = Buffer.alloc(5)
+        header.write(type, 0, 'ascii')
+        header.writeInt32BE(body.length + 4, 1)
+        return Buffer.concat([header, body])
+    }
+
+    static cString(value: string): Buffer {
+        return Buffer.concat([Buffer.from(value, 'utf8'), Buffer.from([0])])
+    }
+
+    static int32(value: number): Buffer {
+        const buffer = Buffer.alloc(4)
+        buffer.writeInt32BE(value, 0)
+        return buffer
+    }
+
+    /**
+     * Backend ErrorResponse ('E')
+     */
+    static errorResponse(fields: ErrorFields): Buffer {
+        const parts = [
+            Buffer.from('S'), this.cString(fields.severity),
+            Buffer.from('V'), this.cString(fields.severity),
+            Buffer.from('C'), this.cString(fields.code),
+            Buffer.from('M'), this.cString(fields.message),
+        ]
+        if (fields.detail) parts.push(Buffer.from('D'), this.cString(fields.detail))
+        if (fields.hint) parts.push(Buffer.from('H'), this.cString(fields.hint))
+        parts.push(Buffer.from([0]))
+
+        return this.message('E', Buffer.concat(parts))
+    }
+
+    /**
+     * Backend ReadyForQuery ('Z') with transaction status I, T or E
+     */
+    static readyForQuery(status: string): Buffer {
+        return this.message('Z', Buffer.from(status, 'ascii'))
+    }
+
+    /**
+     * Backend AuthenticationCleartextPassword
+     */
+    static authenticationCleartextPassword(): Buffer {
+        return this.message('R', this.int32(3))
+    }
+
+    /**
+     * Frontend StartupMessage (untyped)
+     */
+    static startupMessage(params: Record<string, string>): Buffer {
+        const pairs = Object.entries(params).flatMap(([key, value]) => [this.cString(key), this.cString(value)])
+        const body = Buffer.concat([this.int32(PROTOCOL_VERSION_3), ...pairs, Buffer.from([0])])
+        return Buffer.concat([this.int32(body.length + 4), body])
+    }
+
+    /**
+     * Frontend SSLRequest (untyped)
+     */
+    static sslRequest(): Buffer {
+        return Buffer.concat([this.int32(8), this.int32(SSL_REQUEST_CODE)])
+    }
+
+    static passwordMessage(password: string): Buffer {
+        return this.message('p', this.cString(password))
+    }
+
+    static saslInitialResponse(mechanism: string, data: string): Buffer {
+        const payload = Buffer.from(data, 'utf8')
+        return this.message('p', Buffer.concat([this.cString(mechanism), this.int32(payload.length), payload]))
+    }
+
+    static saslResponse(data: string): Buffer {
+        return this.message('p', Buffer.from(data, 'utf8'))
+    }
+
+    static terminate(): Buffer {
+        return this.message('X')
+    }
+
+    // ========================================
+    // AUTHENTICATION
+    // ========================================
+
+    /**
+     * Answer to AuthenticationMD5Password: md5(md5(password + user) + salt)
+     */
+    static md5Password(username: string, password: string, salt: Buffer): string {
+        const inner = createHash('md5').update(password + username).digest('hex')
+        return 'md5' + createHash('md5').update(Buffer.concat([Buffer.from(inner), salt])).digest('hex')
+    }
+}
+
+/**
+ * Client side of a SCRAM-SHA-256 exchange (RFC 5802 / RFC 7677), without channel binding
+ */
+export class ScramClient {
+    private readonly nonce = randomBytes(18).toString('base64')
+    private readonly clientFirstBare = `n=*,r=${this.nonce}`
+    private serverSignature?: Buffer
+
+    constructor(private password: string) {}
+
+    clientFirstMessage(): string {
+        return `n,,${this.clientFirstBare}`
+    }
+
+    clientFinalMessage(serverFirst: string): string {
+        const attributes = ScramClient.attributes(serverFirst)
+        const serverNonce = attributes.r
+        const salt = attributes.s
+        const iterations = parseInt(attributes.i ?? '', 10)
+
+        if (!serverNonce?.startsWith(this.nonce) || !salt || !Number.isFinite(iterations)) {
+            throw new Error('Invalid SCRAM server-first message')
+        }
+
+        const saltedPassword = pbkdf2Sync(this.password, Buffer.from(salt, 'base64'), iterations, 32, 'sha256')
+        const clientKey = ScramClient.hmac(saltedPassword, 'Client Key')
+        const storedKey = createHash('sha256').update(clientKey).digest()
+
+        const clientFinalWithoutProof = `c=biws,r=${serverNonce}`
+        const authMessage = `${this.clientFirstBare},${serverFirst},${clientFinalWithoutProof}`
+
+        const clientSignature = ScramClient.hmac(storedKey, authMessage)
+        const proof = Buffer.from(clientKey.map((byte, i) => byte ^ clientSignature[i]))
+
+        this.serverSignature = ScramClient.hmac(ScramClient.hmac(saltedPassword, 'Server Key'), authMessage)
+
+        return `${clientFinalWithoutProof},p=${proof.toString('base64')}`
+    }
+
+    /**
+     * Check the server proved it knows the password too
+     */
+    verifyServerFinal(serverFinal: string): boolean {
+        const signature = ScramClient.attributes(serverFinal).v
+        if (!signature || !this.serverSignature) return false
+
+        const presented = Buffer.from(signature, 'base64')
+        return presented.length === this.serverSignature.length && timingSafeEqual(presented, this.serverSignature)
+    }
+
+    private static attributes(message: string): Record<string, string> {
+        const attributes: Record<string, string> = {}
+        for (const part of message.split(',')) {
+            const separator = part.indexOf('=')
+            if (separator > 0) {
+                attributes[part.substring(0, separator)] = part.substring(separator + 1)
+            }
+        }
+        return attributes
+    }
+
+    private static hmac(key: Buffer, data: string): Buffer {
+        return createHmac('sha256', key).update(data).digest()
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * Query Executor Service
+ * Runs approved statements against the database as the session's temp role
+ * Writes are guarded by a transaction: if the real row count exceeds the
+ * approved budget the transaction is rolled back and a violation is recorded
+ */
+
+import { FlowContext } from 'motia'
+import { randomBytes } from 'crypto'
+import { DatabaseService } from './database-service'
+import { BlastRadiusController } from './blast-radius-controller'
+import { CredentialVault } from './credential-vault'
+import { Credentials } from './glasskiss-types'
+import { ResourceRegistry } from './resource-registry'
+import { AccessScope } from './scope-analyzer'
+import { ParsedStatement, StatementKind } from './sql-parser'
+
+const WRITE_KINDS: StatementKind[] = ['INSERT', 'UPDATE', 'DELETE']
+
+export interface ExecutionResult {
+    success: boolean
+    committed: boolean
+    limitExceeded: boolean  // rolled back for exceeding maxRowsAffected
+    rowCount: number
+    rows: any[]
+    durationMs: number
+    error?: string
+}
+
+export class QueryExecutor {
+    /**
+     * Execute one approved statement
+     * Reads run directly; anything that writes goes through the transaction guard
+     */
+    static async execute(
+        credential: Credentials,
+        statement: ParsedStatement,
+        streams: FlowContext['streams']
+    ): Promise<ExecutionResult> {
+        if (statement.writes.length > 0) {
+            return this.executeWrite(credential, statement, streams)
+        }
+
+        const startedAt = Date.now()
+        const result = await DatabaseService.executeAsUser(
+            credential.username,
+            CredentialVault.open(credential.passwordEnvelope, credential.requestId),
+            statement.sql,
+            ResourceRegistry.get(credential.resource)
+        )
+
+        return {
+            success: result.success,
+            committed: false,
+            limitExceeded: false,
+            rowCount: result.rowCount ?? 0,
+            rows: result.rows ?? [],
+            durationMs: Date.now() - startedAt,
+            error: result.error,
+        }
+    }
+
+    /**
+     * Execute an approved write inside BEGIN ... COMMIT/ROLLBACK
+     * A rollback for exceeding maxRowsAffected is raised as a row_limit
+     * violation in the scopeEnforcement stream
+     */
+    static async executeWrite(
+        credential: Credentials,
+        statement: ParsedStatement,
+        streams: FlowContext['streams']
+    ): Promise<ExecutionResult> {
+        // The row budget is checked against rowCount, which only counts the
+        // outermost statement: a writable CTE could change any number of rows
+        // underneath it, so only a single plain INSERT/UPDATE/DELETE runs here
+        if (statement.writes.length !== 1 || !WRITE_KINDS.includes(statement.kind)) {
+            const error = 'Data-modifying CTEs cannot be executed: their affected rows cannot be held to the row budget'
+            const enforcementId = randomBytes(8).toString('hex')
+            await streams.scopeEnforcement.set(credential.sessionId, enforcementId, {
+                id: enforcementId,
+                sessionId: credential.sessionId,
+                requestId: credential.requestId,
+                timestamp: new Date().toISOString(),
+                command: statement.sql,
+                decision: 'blocked',
+                reason: error,
+                violationType: 'row_limit',
+                severity: 'high',
+            })
+
+            return { success: false, committed: false, limitExceeded: false, rowCount: 0, rows: [], durationMs: 0, error }
+        }
+
+        const resource = ResourceRegistry.get(credential.resource)
+        const maxRows = BlastRadiusController.configFor(
+            credential.accessScope as AccessScope | undefined,
+            resource?.blastRadius
+        ).maxRowsAffected
+
+        const startedAt = Date.now()
+        const result = await DatabaseService.executeWriteAsUser(
+            credential.username,
+            CredentialVault.open(credential.passwordEnvelope, credential.requestId),
+            statement.sql,
+            maxRows,
+            resource
+        )
+        const durationMs = Date.now() - startedAt
+
+        if (result.limitExceeded) {
+            const enforcementId = randomBytes(8).toString('hex')
+            await streams.scopeEnforcement.set(credential.sessionId, enforcementId, {
+                id: enforcementId,
+                sessionId: credential.sessionId,
+                requestId: credential.requestId,
+                timestamp: new Date().toISOString(),
+                command: statement.sql,
+                decision: 'blocked',
+                reason: result.error,
+                violationType: 'row_limit',
+                severity: 'high',
+            })
+        }
+
+        return {
+            success: result.success,
+            committed: result.committed,
+            limitExceeded: result.limitExceeded,
+            rowCount: result.rowCount,
+            rows: result.rows ?? [],
+            durationMs,
+            error: result.error,
+        }
+    }
+}
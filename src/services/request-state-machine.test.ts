@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { AccessState } from './glasskiss-types'
+import { RequestStateMachine } from './request-state-machine'
+
+const request = (status: AccessState['status']): AccessState => ({
+    id: 'req-1',
+    requester: 'alice',
+    resource: 'production-db',
+    accessLevel: 'READ_ONLY',
+    reason: 'Investigate order #42',
+    duration: 30,
+    riskScore: 40,
+    status,
+    statusHistory: RequestStateMachine.created('alice'),
+    approvers: [],
+    requiredApprovals: 1,
+    createdAt: '2025-01-01T12:00:00.000Z',
+})
+
+describe('RequestStateMachine.apply', () => {
+    it('walks the happy path from pending_risk to revoked', () => {
+        let current = request('pending_risk')
+
+        for (const to of ['pending_approval', 'approved', 'active', 'revoked'] as const) {
+            const result = RequestStateMachine.apply(current, to, { actor: 'test' })
+            expect(result.ok).toBe(true)
+            current = result.requestState!
+        }
+
+        expect(current.status).toBe('revoked')
+        expect(current.statusHistory!.map(change => change.to)).toEqual([
+            'pending_risk', 'pending_approval', 'approved', 'active', 'revoked',
+        ])
+    })
+
+    it('records who made the change and why', () => {
+        const result = RequestStateMachine.apply(request('pending_approval'), 'rejected', {
+            actor: 'bob',
+            reason: 'Use the replica',
+        })
+
+        expect(result.requestState!.statusHistory!.slice(-1)[0]).toMatchObject({
+            from: 'pending_approval',
+            to: 'rejected',
+            actor: 'bob',
+            reason: 'Use the replica',
+        })
+    })
+
+    it('writes other fields together with the status', () => {
+        const result = RequestStateMachine.apply(request('pending_approval'), 'approved', {
+            actor: 'bob',
+            changes: { approvers: ['bob'], approvedAt: '2025-01-01T12:05:00.000Z' },
+        })
+
+        expect(result.requestState).toMatchObject({ status: 'approved', approvers: ['bob'], approvedAt: '2025-01-01T12:05:00.000Z' })
+    })
+
+    it('refuses transitions the table does not allow and leaves the request unchanged', () => {
+        const pending = request('pending_approval')
+        const result = RequestStateMachine.apply(pending, 'active', { actor: 'test' })
+
+        expect(result.ok).toBe(false)
+        expect(result.error).toMatch(/cannot go from pending_approval to active/)
+        expect(result.requestState).toBe(pending)
+    })
+
+    it('moves a failed revocation back to revoked only', () => {
+        expect(RequestStateMachine.canTransition('active', 'revocation_failed')).toBe(true)
+        expect(RequestStateMachine.canTransition('revocation_failed', 'revoked')).toBe(true)
+        expect(RequestStateMachine.canTransition('revocation_failed', 'active')).toBe(false)
+    })
+
+    it.each(['rejected', 'cancelled', 'expired', 'revoked'] as const)('treats %s as final', status => {
+        expect(RequestStateMachine.isFinal(status)).toBe(true)
+        expect(RequestStateMachine.apply(request(status), 'active', { actor: 'test' }).ok).toBe(false)
+    })
+
+    it('lets pending requests be cancelled but not active ones', () => {
+        expect(RequestStateMachine.canTransition('pending_risk', 'cancelled')).toBe(true)
+        expect(RequestStateMachine.canTransition('pending_approval', 'cancelled')).toBe(true)
+        expect(RequestStateMachine.canTransition('active', 'cancelled')).toBe(false)
+    })
+})
@@ -0,0 +1,144 @@
+/**
+ * Request State Machine Service
+ * The only way a request's status changes. Each transition is checked against
+ * the table below and appended to the request's statusHistory with who made
+ * it, when and why. Every read-modify-write of a stored request, status or
+ * not, runs under the request's lock (withRequest), so concurrent writers
+ * cannot undo each other's changes.
+ *
+ *   pending_risk → pending_approval → approved → active → revoked
+ *   a failed revoke moves to revocation_failed until a retry succeeds
+ *   rejected, cancelled, expired and revoked are final
+ */
+
+import { FlowContext } from 'motia'
+import { AccessState, RequestStatus, StatusChange } from './glasskiss-types'
+import { StateLock } from './state-lock'
+
+type State = FlowContext['state']
+
+const TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+    pending_risk: ['pending_approval', 'rejected', 'cancelled'],
+    pending_approval: ['approved', 'rejected', 'cancelled', 'expired'],
+    approved: ['active', 'cancelled', 'revoked', 'revocation_failed'],
+    active: ['revoked', 'revocation_failed'],
+    revocation_failed: ['revoked'],
+    revoked: [],
+    rejected: [],
+    cancelled: [],
+    expired: [],
+}
+
+export interface TransitionResult {
+    ok: boolean
+    requestState: AccessState | null
+    error?: string
+}
+
+export interface TransitionOptions {
+    actor: string
+    reason?: string
+    changes?: Partial<AccessState>  // other fields written together with the status
+}
+
+export class RequestStateMachine {
+    static canTransition(from: RequestStatus, to: RequestStatus): boolean {
+        return TRANSITIONS[from].includes(to)
+    }
+
+    static isFinal(status: RequestStatus): boolean {
+        return TRANSITIONS[status].length === 0
+    }
+
+    /**
+     * History for a request that was just created
+     */
+    static created(actor: string, reason?: string): StatusChange[] {
+        return [{ from: null, to: 'pending_risk', actor, at: new Date().toISOString(), reason }]
+    }
+
+    /**
+     * The request moved to `to`, without writing it anywhere
+     */
+    static apply(requestState: AccessState, to: RequestStatus, options: TransitionOptions): TransitionResult {
+        const from = requestState.status
+        if (!this.canTransition(from, to)) {
+            return {
+                ok: false,
+                requestState,
+                error: `Request ${requestState.id} cannot go from ${from} to ${to}`,
+            }
+        }
+
+        const change: StatusChange = {
+            from,
+            to,
+            actor: options.actor,
+            at: new Date().toISOString(),
+            reason: options.reason,
+        }
+
+        return {
+            ok: true,
+            requestState: {
+                ...requestState,
+                ...options.changes,
+                status: to,
+                statusHistory: [...(requestState.statusHistory ?? []), change],
+            },
+        }
+    }
+
+    /**
+     * Read the request, apply the transition and store it, under the request's lock
+     */
+    static async transition(
+        state: State,
+        requestId: string,
+        to: RequestStatus,
+        options: TransitionOptions
+    ): Promise<TransitionResult> {
+        return this.withRequest(state, requestId, async () => {
+            const requestState = await state.get<AccessState>('access-requests', requestId)
+            if (!requestState) {
+                return { ok: false, requestState: null, error: `Request ${requestId} not found` }
+            }
+
+            const result = this.apply(requestState, to, options)
+            if (result.ok && result.requestState) {
+                await state.set('access-requests', requestId, result.requestState)
+            }
+            return result
+        })
+    }
+
+    /**
+     * Read the request, change fields other than its status and store it,
+     * under the request's lock. change returns null to leave it as it is
+     */
+    static async update(
+        state: State,
+        requestId: string,
+        change: (requestState: AccessState) => AccessState | null
+    ): Promise<AccessState | null> {
+        return this.withRequest(state, requestId, async () => {
+            const requestState = await state.get<AccessState>('access-requests', requestId)
+            const updated = requestState && change(requestState)
+            if (!updated) {
+                return null
+            }
+
+            const stored = { ...updated, status: requestState.status }
+            await state.set('access-requests', requestId, stored)
+            return stored
+        })
+    }
+
+    /**
+     * Run fn holding the request's lock; transition and update take it
+     * themselves, so fn writes with apply and state.set instead
+     */
+    static withRequest<T>(state: State, requestId: string, fn: () => Promise<T>): Promise<T> {
+        return StateLock.withLock(state, 'access-request', requestId, fn)
+    }
+}
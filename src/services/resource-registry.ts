@@ -0,0 +1,179 @@
+/**
+ * Resource Registry Service
+ * Every resource that can be requested, with its connection target and policies
+ * Requests for resources not listed here are rejected
+ */
+
+import { ApprovalPolicies } from './approval-policy'
+import { BlastRadiusConfig } from './blast-radius-controller'
+import { ConnectionTarget } from './database-service'
+import { ApprovalPolicy } from './glasskiss-types'
+
+export type ResourceEngine = 'postgres'
+export type EnvironmentTier = 'production' | 'staging' | 'development'
+export type AccessLevel = 'READ_ONLY' | 'READ_WRITE'
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+// How long a request may wait for approval before each follow-up step
+export interface ApprovalSlaConfig {
+    remindAfterMinutes: number      // re-ping the approvers
+    escalateAfterMinutes: number    // bring in the next tier
+    expireAfterMinutes: number      // give up: the request expires
+    escalateTo: string              // directory selector for the next tier
+}
+
+export interface ResourceDefinition extends ConnectionTarget {
+    name: string
+    engine: ResourceEngine
+    environment: EnvironmentTier
+    owningTeam: string
+    allowedAccessLevels: AccessLevel[]
+    blastRadius: Partial<BlastRadiusConfig>     // baseline; an approved scope can only narrow it
+    approvers: Record<RiskLevel, string[]>      // who is asked to approve, by risk level
+    approvalPolicies?: Partial<Record<RiskLevel, ApprovalPolicy>>  // M-of-N rules; a level without one uses approvers
+    approvalSla?: Partial<Record<RiskLevel, ApprovalSlaConfig>>     // a level without one uses DEFAULT_APPROVAL_SLA
+    credentialProvider?: 'postgres' | 'simulated'  // unset: CREDENTIAL_BACKEND decides
+}
+
+// Connection defaults shared by the bundled resources
+const DEFAULT_TARGET: ConnectionTarget = {
+    host: process.env.POSTGRES_HOST || 'localhost',
+    port: parseInt(process.env.POSTGRES_PORT || '5432'),
+    database: process.env.POSTGRES_DATABASE || 'glasskiss',
+    ssl: process.env.POSTGRES_SSL === 'true',
+}
+
+// Riskier requests are chased sooner: they usually block someone in an incident
+const DEFAULT_APPROVAL_SLA: Record<RiskLevel, ApprovalSlaConfig> = {
+    low: { remindAfterMinutes: 60, escalateAfterMinutes: 120, expireAfterMinutes: 240, escalateTo: 'tech_leads' },
+    medium: { remindAfterMinutes: 30, escalateAfterMinutes: 60, expireAfterMinutes: 120, escalateTo: 'oncall:sre' },
+    high: { remindAfterMinutes: 15, escalateAfterMinutes: 30, expireAfterMinutes: 60, escalateTo: 'oncall:security' },
+}
+
+const RESOURCES: ResourceDefinition[] = [
+    {
+        name: 'production-db',
+        engine: 'postgres',
+        ...DEFAULT_TARGET,
+        environment: 'production',
+        owningTeam: 'platform',
+        allowedAccessLevels: ['READ_ONLY', 'READ_WRITE'],
+        blastRadius: {
+            maxRowsAffected: 100,
+            blockedTables: ['glasskiss_audit_log', 'glasskiss_temp_users'],
+        },
+        approvers: {
+            low: ['senior_dev_1'],
+            medium: ['tech_lead_1'],
+            high: ['tech_lead_1', 'vp_engineering_1'],
+        },
+        approvalPolicies: {
+            medium: {
+                rule: { any: [{ group: 'sre', quorum: 2 }, { group: 'security', quorum: 1 }] },
+            },
+            high: {
+                rule: {
+                    all: [
+                        { group: 'tech_leads', quorum: 1 },
+                        { any: [{ group: 'engineering_vps', quorum: 1 }, { group: 'security', quorum: 1 }] },
+                    ],
+                },
+                forbiddenPairings: [
+                    { requester: 'group:contractors', approver: 'group:tech_leads', reason: 'Contractors are approved outside their own reporting line' },
+                ],
+            },
+        },
+    },
+    {
+        name: 'staging-db',
+        engine: 'postgres',
+        ...DEFAULT_TARGET,
+        environment: 'staging',
+        owningTeam: 'platform',
+        allowedAccessLevels: ['READ_ONLY', 'READ_WRITE'],
+        blastRadius: {
+            maxRowsAffected: 1000,
+        },
+        approvers: {
+            low: ['senior_dev_1'],
+            medium: ['senior_dev_1'],
+            high: ['tech_lead_1'],
+        },
+    },
+    {
+        name: 'analytics-replica',
+        engine: 'postgres',
+        ...DEFAULT_TARGET,
+        environment: 'production',
+        owningTeam: 'data',
+        allowedAccessLevels: ['READ_ONLY'],
+        blastRadius: {
+            blockedOperations: ['DROP', 'TRUNCATE', 'ALTER', 'CREATE', 'INSERT', 'UPDATE', 'DELETE'],
+        },
+        approvers: {
+            low: ['data_lead_1'],
+            medium: ['data_lead_1'],
+            high: ['data_lead_1', 'tech_lead_1'],
+        },
+    },
+]
+
+export class ResourceRegistry {
+    /**
+     * Look up a resource by name
+     */
+    static get(name: string): ResourceDefinition | undefined {
+        return RESOURCES.find(resource => resource.name === name)
+    }
+
+    /**
+     * Look up a resource that must exist
+     */
+    static require(name: string): ResourceDefinition {
+        const resource = this.get(name)
+        if (!resource) {
+            throw new Error(`Unknown resource: ${name}`)
+        }
+        return resource
+    }
+
+    static list(): ResourceDefinition[] {
+        return [...RESOURCES]
+    }
+
+    /**
+     * Risk level for a score, using the same thresholds as RiskAnalyzer
+     */
+    static riskLevel(riskScore: number): RiskLevel {
+        if (riskScore > 70) return 'high'
+        if (riskScore > 40) return 'medium'
+        return 'low'
+    }
+
+    /**
+     * Approvers to route a request to
+     */
+    static approversFor(name: string, riskScore: number): string[] {
+        return this.require(name).approvers[this.riskLevel(riskScore)]
+    }
+
+    /**
+     * Approval policy for a request; levels without one need requiredApprovals
+     * of the level's approvers
+     */
+    static approvalPolicyFor(name: string, riskScore: number, requiredApprovals: number): ApprovalPolicy {
+        const resource = this.require(name)
+        const level = this.riskLevel(riskScore)
+        return resource.approvalPolicies?.[level]
+            ?? ApprovalPolicies.fromApprovers(resource.approvers[level], requiredApprovals)
+    }
+
+    /**
+     * Approval SLA for a request; also answers for resources removed since
+     * the request was made, so their pending approvals still expire
+     */
+    static approvalSlaFor(name: string, riskScore: number): ApprovalSlaConfig {
+        const level = this.riskLevel(riskScore)
+        return this.get(name)?.approvalSla?.[level] ?? DEFAULT_APPROVAL_SLA[level]
+    }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { RevocationSchedule } from './revocation-schedule'
+
+// Just enough of Motia's state API for the schedule
+const memoryState = () => {
+    const groups = new Map<string, Map<string, any>>()
+    const group = (name: string) => groups.get(name) ?? groups.set(name, new Map()).get(name)!
+
+    return {
+        get: async (name: string, key: string) => group(name).get(key) ?? null,
+        set: async (name: string, key: string, value: any) => group(name).set(key, value) && value,
+        delete: async (name: string, key: string) => group(name).delete(key),
+        getGroup: async (name: string) => [...group(name).values()],
+    } as any
+}
+
+const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 12, minutes))
+
+describe('RevocationSchedule.due', () => {
+    it('returns overdue pending deadlines only', async () => {
+        const state = memoryState()
+        await RevocationSchedule.schedule(state, 'past', at(0).toISOString())
+        await RevocationSchedule.schedule(state, 'future', at(30).toISOString())
+
+        const due = await RevocationSchedule.due(state, at(10))
+
+        expect(due.map(d => d.requestId)).toEqual(['past'])
+    })
+
+    it('fires a fired deadline again once its retry window has passed', async () => {
+        const state = memoryState()
+        const deadline = await RevocationSchedule.schedule(state, 'req', at(0).toISOString())
+        const fired = await RevocationSchedule.markFired(state, deadline)
+        const firedAt = new Date(fired.firedAt!)
+
+        expect(await RevocationSchedule.due(state, new Date(firedAt.getTime() + 60 * 1000))).toEqual([])
+        expect(await RevocationSchedule.due(state, new Date(firedAt.getTime() + 5 * 60 * 1000))).toHaveLength(1)
+    })
+})
+
+describe('RevocationSchedule.recordSweep', () => {
+    it('reports only the first of consecutive sweeps as a start', async () => {
+        const state = memoryState()
+
+        expect(await RevocationSchedule.recordSweep(state, at(0))).toBe(true)
+        expect(await RevocationSchedule.recordSweep(state, at(1))).toBe(false)
+        expect(await RevocationSchedule.recordSweep(state, at(2))).toBe(false)
+    })
+
+    it('reports a start after a gap in sweeps', async () => {
+        const state = memoryState()
+        await RevocationSchedule.recordSweep(state, at(0))
+
+        expect(await RevocationSchedule.recordSweep(state, at(10))).toBe(true)
+    })
+
+    it('reports a start when the sweep runs under a different server', async () => {
+        const state = memoryState()
+        await state.set('revocation-sweeper', 'last-sweep', { id: 'last-sweep', server: -1, sweptAt: at(0).toISOString() })
+
+        expect(await RevocationSchedule.recordSweep(state, at(1))).toBe(true)
+    })
+})
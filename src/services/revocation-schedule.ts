@@ -0,0 +1,191 @@
+/**
+ * Revocation Schedule Service
+ * Persisted revocation deadlines, one per grant. StartTimer records them and
+ * the RevocationSweeper cron fires revoke-access once they are due, so a
+ * restart or crash cannot leave a grant without an expiry.
+ */
+
+import { FlowContext } from 'motia'
+import { Credentials, RevocationDeadline } from './glasskiss-types'
+
+type State = FlowContext['state']
+
+const SCHEDULE_GROUP = 'revocation-schedule'
+
+// A fired deadline that RevokeAccess never completed is fired again after this
+const RETRY_AFTER_MS = 5 * 60 * 1000
+
+const SWEEPER_GROUP = 'revocation-sweeper'
+const SWEEPER_MARKER = 'last-sweep'
+
+// The sweeper runs every minute; a longer gap means it was not running
+const RESTART_GAP_MS = 3 * 60 * 1000
+
+interface SweepMarker {
+    id: string
+    server: number
+    sweptAt: string
+}
+
+export class RevocationSchedule {
+    /**
+     * Record (or move) the deadline for a grant
+     */
+    static async schedule(state: State, requestId: string, revokeAt: string): Promise<RevocationDeadline> {
+        const deadline: RevocationDeadline = {
+            id: requestId,
+            requestId,
+            revokeAt,
+            status: 'pending',
+            scheduledAt: new Date().toISOString(),
+            attempts: 0,
+        }
+
+        await state.set(SCHEDULE_GROUP, requestId, deadline)
+        return deadline
+    }
+
+    static async get(state: State, requestId: string): Promise<RevocationDeadline | null> {
+        return state.get<RevocationDeadline>(SCHEDULE_GROUP, requestId)
+    }
+
+    /**
+     * Deadlines that should fire now: pending ones that are overdue, and fired
+     * ones whose revocation never completed
+     */
+    static async due(state: State, now: Date = new Date()): Promise<RevocationDeadline[]> {
+        const deadlines = await state.getGroup<RevocationDeadline>(SCHEDULE_GROUP)
+
+        return deadlines.filter(deadline => {
+            if (deadline.status === 'pending') {
+                return new Date(deadline.revokeAt) <= now
+            }
+            if (deadline.status === 'fired' && deadline.firedAt) {
+                return now.getTime() - new Date(deadline.firedAt).getTime() >= RETRY_AFTER_MS
+            }
+            return false
+        })
+    }
+
+    static async markFired(state: State, deadline: RevocationDeadline): Promise<RevocationDeadline> {
+        const fired: RevocationDeadline = {
+            ...deadline,
+            status: 'fired',
+            firedAt: new Date().toISOString(),
+            attempts: deadline.attempts + 1,
+        }
+
+        await state.set(SCHEDULE_GROUP, deadline.requestId, fired)
+        return fired
+    }
+
+    /**
+     * Stop the timer when a grant is ended early; RevokeAccess completes it
+     * Returns false when there was no live deadline to cancel
+     */
+    static async cancel(state: State, requestId: string): Promise<boolean> {
+        const deadline = await this.get(state, requestId)
+        if (!deadline || deadline.status === 'completed' || deadline.status === 'cancelled') {
+            return false
+        }
+
+        await state.set(SCHEDULE_GROUP, requestId, {
+            ...deadline,
+            status: 'cancelled',
+            cancelledAt: new Date().toISOString(),
+        })
+        return true
+    }
+
+    /**
+     * Keep the deadline open after a failed revocation: it counts as fired
+     * now, so the sweeper fires it again, with the same reason, after
+     * RETRY_AFTER_MS
+     */
+    static async retry(
+        state: State,
+        requestId: string,
+        retry: NonNullable<RevocationDeadline['retry']>
+    ): Promise<RevocationDeadline> {
+        const now = new Date().toISOString()
+        const deadline = await this.get(state, requestId)
+        const next: RevocationDeadline = {
+            ...(deadline ?? { id: requestId, requestId, revokeAt: now, scheduledAt: now, attempts: 1 }),
+            status: 'fired',
+            firedAt: now,
+            retry,
+        }
+
+        await state.set(SCHEDULE_GROUP, requestId, next)
+        return next
+    }
+
+    /**
+     * Close the deadline once the grant is revoked, for whatever reason
+     */
+    static async complete(state: State, requestId: string): Promise<void> {
+        const deadline = await this.get(state, requestId)
+        if (!deadline || deadline.status === 'completed') {
+            return
+        }
+
+        await state.set(SCHEDULE_GROUP, requestId, {
+            ...deadline,
+            status: 'completed',
+            completedAt: new Date().toISOString(),
+        })
+    }
+
+    /**
+     * Schedule a deadline for every live credential that has none, e.g. when
+     * the process died between provisioning and StartTimer
+     * Returns the deadlines that were created
+     */
+    static async rearm(state: State): Promise<RevocationDeadline[]> {
+        const credentials = await state.getGroup<Credentials>('credentials')
+        const rearmed: RevocationDeadline[] = []
+
+        for (const credential of credentials) {
+            const existing = await this.get(state, credential.requestId)
+            if (existing && existing.status !== 'completed' && !this.staleCancel(existing)) {
+                continue
+            }
+            rearmed.push(await this.schedule(state, credential.requestId, credential.expiresAt))
+        }
+
+        return rearmed
+    }
+
+    /**
+     * Cancelled for an early revocation that never completed; the credential
+     * falls back to its original expiry
+     */
+    private static staleCancel(deadline: RevocationDeadline, now: Date = new Date()): boolean {
+        return deadline.status === 'cancelled'
+            && !!deadline.cancelledAt
+            && now.getTime() - new Date(deadline.cancelledAt).getTime() >= RETRY_AFTER_MS
+    }
+
+    /**
+     * Record a sweep; true for the first sweep since the server started
+     * Each cron run is a fresh child process, so the server is recognised by
+     * the parent process id, and a gap of missed sweeps counts as a restart too
+     */
+    static async recordSweep(state: State, now: Date = new Date()): Promise<boolean> {
+        const previous = await state.get<SweepMarker>(SWEEPER_GROUP, SWEEPER_MARKER)
+        await state.set<SweepMarker>(SWEEPER_GROUP, SWEEPER_MARKER, {
+            id: SWEEPER_MARKER,
+            server: process.ppid,
+            sweptAt: now.toISOString(),
+        })
+
+        return !previous
+            || previous.server !== process.ppid
+            || now.getTime() - new Date(previous.sweptAt).getTime() >= RESTART_GAP_MS
+    }
+
+    static async pending(state: State): Promise<RevocationDeadline[]> {
+        const deadlines = await state.getGroup<RevocationDeadline>(SCHEDULE_GROUP)
+        return deadlines.filter(deadline => deadline.status === 'pending')
+    }
+}
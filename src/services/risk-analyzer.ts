@@ -3,6 +3,8 @@
  * Analyzes access requests and calculates risk scores
  */
 
+import { ResourceRegistry } from './resource-registry'
+
 export interface RiskAnalysisResult {
     riskScore: number
     requiredApprovals: number
@@ -53,8 +55,10 @@ export class RiskAnalyzer {
             factors.push('Marked as urgent')
         }
 
-        // Resource-based risk
-        if (resource.includes('prod')) {
+        // Resource-based risk, from the registry's environment tier
+        // (unregistered resources are treated as production)
+        const environment = ResourceRegistry.get(resource)?.environment ?? 'production'
+        if (environment === 'production') {
             riskScore += 20
             factors.push('Production resource')
         }
@@ -66,15 +70,48 @@ export class RiskAnalyzer {
         }
 
         // Determine required approvals based on risk
-        let requiredApprovals = 1
-        if (riskScore > 70) {
-            requiredApprovals = 2 // High risk requires multi-sig
-            factors.push('High risk: requires 2 approvals')
-        } else if (riskScore > 40) {
-            factors.push('Medium risk: requires 1 approval')
-        } else {
-            factors.push('Low risk: requires 1 approval')
+        const requiredApprovals = this.requiredApprovalsFor(riskScore, factors)
+
+        return {
+            riskScore: Math.min(100, riskScore),
+            requiredApprovals,
+            factors,
         }
+    }
+
+    /**
+     * Scores an extension of an active session: the justification is analyzed
+     * like a new request, with the extension itself as an added risk factor
+     * @param minutes - Extra minutes requested
+     * @param grantedMinutes - Minutes already granted, original plus earlier extensions
+     * @param previousExtensions - Extensions already applied to this session
+     */
+    static analyzeExtension(
+        justification: string,
+        resource: string,
+        accessLevel: string,
+        minutes: number,
+        grantedMinutes: number,
+        previousExtensions: number
+    ): RiskAnalysisResult {
+        const base = this.analyzeRequest(justification, resource, accessLevel)
+        let riskScore = base.riskScore
+        const factors = base.factors.slice(0, -1)  // approvals are decided again below
+
+        riskScore += 10
+        factors.push('Extension of an active session')
+
+        if (grantedMinutes + minutes > 60) {
+            riskScore += 15
+            factors.push('Total session longer than 60 minutes')
+        }
+
+        if (previousExtensions > 0) {
+            riskScore += 10 * previousExtensions
+            factors.push(`Extended ${previousExtensions} time(s) already`)
+        }
+
+        const requiredApprovals = this.requiredApprovalsFor(riskScore, factors)
 
         return {
             riskScore: Math.min(100, riskScore),
@@ -82,4 +119,17 @@ export class RiskAnalyzer {
             factors,
         }
     }
+
+    private static requiredApprovalsFor(riskScore: number, factors: string[]): number {
+        if (riskScore > 70) {
+            factors.push('High risk: requires 2 approvals')
+            return 2 // High risk requires multi-sig
+        }
+        if (riskScore > 40) {
+            factors.push('Medium risk: requires 1 approval')
+        } else {
+            factors.push('Low risk: requires 1 approval')
+        }
+        return 1
+    }
 }
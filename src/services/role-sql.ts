@@ -0,0 +1,88 @@
+/**
+ * Role SQL Service
+ * Builds the role-management statements DatabaseService runs. DDL cannot
+ * take bind parameters, so every name goes through a strict pattern and is
+ * quoted as an identifier, and every value is quoted as a literal.
+ */
+
+import { randomBytes } from 'crypto'
+import pg from 'pg'
+const { escapeIdentifier, escapeLiteral } = pg
+
+// Prefixes are lowercase words ending in an underscore, e.g. gk_
+const PREFIX_PATTERN = /^[a-z][a-z0-9]{0,15}_$/
+
+// prefix + 8 to 32 lowercase alphanumerics, well under the 63 byte limit
+const USERNAME_PATTERN = /^[a-z][a-z0-9]{0,15}_[a-z0-9]{8,32}$/
+
+export class RoleSql {
+    /**
+     * Temp role name for a request; throws rather than build a name from
+     * anything outside the pattern
+     */
+    static username(requestId: string, prefix: string = 'gk_'): string {
+        if (!PREFIX_PATTERN.test(prefix)) {
+            throw new Error(`Invalid role prefix: ${JSON.stringify(prefix)}`)
+        }
+        return this.assertUsername(`${prefix}${requestId.substring(0, 8).toLowerCase()}`)
+    }
+
+    /**
+     * Refuse any role name GlassKiss could not have generated
+     */
+    static assertUsername(username: string): string {
+        if (!USERNAME_PATTERN.test(username)) {
+            throw new Error(`Refusing unsafe role name: ${JSON.stringify(username)}`)
+        }
+        return username
+    }
+
+    /**
+     * 32 URL-safe characters from 24 random bytes; no quotes or dollar signs
+     */
+    static generatePassword(): string {
+        return randomBytes(24).toString('base64url')
+    }
+
+    static generateSessionId(): string {
+        return randomBytes(16).toString('hex')
+    }
+
+    static createRole(username: string, password: string, validUntil: Date): string {
+        return `CREATE ROLE ${this.role(username)} WITH LOGIN PASSWORD ${escapeLiteral(password)} VALID UNTIL ${escapeLiteral(validUntil.toISOString())}`
+    }
+
+    /**
+     * Reset an existing role, e.g. when a request is provisioned again
+     */
+    static resetRole(username: string, password: string, validUntil: Date): string {
+        return `ALTER ROLE ${this.role(username)} WITH LOGIN PASSWORD ${escapeLiteral(password)} VALID UNTIL ${escapeLiteral(validUntil.toISOString())}`
+    }
+
+    static setValidUntil(username: string, validUntil: Date): string {
+        return `ALTER ROLE ${this.role(username)} VALID UNTIL ${escapeLiteral(validUntil.toISOString())}`
+    }
+
+    static grantConnect(database: string, username: string): string {
+        return `GRANT CONNECT ON DATABASE ${escapeIdentifier(database)} TO ${this.role(username)}`
+    }
+
+    static revokeConnect(database: string, username: string): string {
+        return `REVOKE CONNECT ON DATABASE ${escapeIdentifier(database)} FROM ${this.role(username)}`
+    }
+
+    static dropOwned(username: string): string {
+        return `DROP OWNED BY ${this.role(username)}`
+    }
+
+    static dropRole(username: string): string {
+        return `DROP ROLE IF EXISTS ${this.role(username)}`
+    }
+
+    /**
+     * Validated and quoted role name, for statements built elsewhere
+     */
+    static role(username: string): string {
+        return escapeIdentifier(this.assertUsername(username))
+    }
+}
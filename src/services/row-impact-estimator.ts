@@ -0,0 +1,75 @@
+/**
+ * Row Impact Estimator Service
+ * Asks the PostgreSQL planner how many rows a write will touch before it runs
+ * Uses EXPLAIN (no ANALYZE), so nothing is executed
+ */
+
+import { ConnectionTarget, DatabaseService } from './database-service'
+import { ParsedStatement } from './sql-parser'
+
+export interface RowImpactEstimate {
+    estimatedRows: number
+    planNode: string  // node the estimate was read from, e.g. "ModifyTable (Update on users)"
+}
+
+interface PlanNode {
+    'Node Type': string
+    'Operation'?: string
+    'Relation Name'?: string
+    'Plan Rows': number
+    'Plans'?: PlanNode[]
+}
+
+export class RowImpactEstimator {
+    /**
+     * Estimate rows affected by a write statement.
+     * Returns null for reads, unparsed statements, or when the planner cannot
+     * produce a plan (callers fall back to static heuristics).
+     */
+    static async estimate(statement: ParsedStatement, target?: ConnectionTarget): Promise<RowImpactEstimate | null> {
+        if (statement.parseError || statement.writes.length === 0) {
+            return null
+        }
+
+        try {
+            const plan = await DatabaseService.explainQuery(statement.sql, target) as PlanNode
+            return this.fromPlan(plan)
+        } catch (error) {
+            console.warn('[ESTIMATOR] ⚠️ EXPLAIN failed, no planner estimate:', error)
+            return null
+        }
+    }
+
+    /**
+     * Read the row estimate from a plan tree.
+     * Every ModifyTable node (including writable CTEs) counts; the largest wins.
+     */
+    static fromPlan(plan: PlanNode): RowImpactEstimate {
+        const modifyNodes = this.collectModifyNodes(plan)
+
+        if (modifyNodes.length === 0) {
+            return { estimatedRows: plan['Plan Rows'], planNode: plan['Node Type'] }
+        }
+
+        let best: RowImpactEstimate = { estimatedRows: 0, planNode: 'ModifyTable' }
+
+        for (const node of modifyNodes) {
+            // Without RETURNING, ModifyTable reports 0 rows; its input is what gets modified
+            const rows = Math.max(node['Plan Rows'], node.Plans?.[0]?.['Plan Rows'] ?? 0)
+
+            if (rows >= best.estimatedRows) {
+                best = {
+                    estimatedRows: rows,
+                    planNode: `ModifyTable (${node.Operation ?? 'Write'} on ${node['Relation Name'] ?? 'unknown'})`,
+                }
+            }
+        }
+
+        return best
+    }
+
+    private static collectModifyNodes(node: PlanNode): PlanNode[] {
+        const children = (node.Plans ?? []).flatMap(child => this.collectModifyNodes(child))
+        return node['Node Type'] === 'ModifyTable' ? [node, ...children] : children
+    }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { AccessScope, ScopeAnalyzer } from './scope-analyzer'
+
+const scope: AccessScope = {
+    allowedTables: ['users'],
+    allowedOperations: ['SELECT', 'UPDATE'],
+    rowFilters: { users: 'id = 5' },
+    maxRowsAffected: 10,
+    extractedEntities: [],
+    scopeDescription: 'users 5',
+}
+
+describe('ScopeAnalyzer.validateCommand', () => {
+    it('allows a query on an allowed table', () => {
+        expect(ScopeAnalyzer.validateCommand('SELECT * FROM users WHERE id = 5', scope).valid).toBe(true)
+    })
+
+    it('rejects a table outside the scope', () => {
+        expect(ScopeAnalyzer.validateCommand('SELECT * FROM secrets', scope).valid).toBe(false)
+    })
+
+    it('rejects a table hidden behind a CTE of the same name', () => {
+        const sql = 'WITH secrets AS (SELECT * FROM secrets) SELECT * FROM secrets'
+
+        expect(ScopeAnalyzer.validateCommand(sql, scope).valid).toBe(false)
+    })
+
+    it('rejects a table hidden behind a CTE in a subquery', () => {
+        const sql = 'SELECT * FROM (WITH secrets AS (SELECT 1) SELECT * FROM secrets) a, secrets'
+
+        expect(ScopeAnalyzer.validateCommand(sql, scope).valid).toBe(false)
+    })
+
+    it('requires the row filter on writes', () => {
+        expect(ScopeAnalyzer.validateCommand("UPDATE users SET name = 'x' WHERE id = 6", scope).valid).toBe(false)
+        expect(ScopeAnalyzer.validateCommand("UPDATE users SET name = 'x' WHERE id = 5", scope).valid).toBe(true)
+    })
+
+    it('rejects operations outside the scope', () => {
+        expect(ScopeAnalyzer.validateCommand('DELETE FROM users WHERE id = 5', scope).valid).toBe(false)
+    })
+
+    it('fails closed on SQL it cannot parse', () => {
+        expect(ScopeAnalyzer.validateCommand('SELEC * FROM users', scope).valid).toBe(false)
+    })
+})
@@ -4,6 +4,8 @@
  * Maps approved intent to enforceable SQL policies
  */
 
+import { SqlParser } from './sql-parser'
+
 export interface ExtractedEntity {
     type: string      // 'user', 'order', 'account', etc.
     field: string     // Database field name: 'id', 'user_id', etc.
@@ -14,6 +16,7 @@ export interface AccessScope {
     allowedTables: string[]
     allowedOperations: string[]
     rowFilters: Record<string, string>  // table -> WHERE condition
+    allowedColumns?: Record<string, string[]>  // table -> columns, when the scope names them
     maxRowsAffected: number
     extractedEntities: ExtractedEntity[]
     scopeDescription: string
@@ -261,117 +264,58 @@ export class ScopeAnalyzer {
 
     /**
      * Validate a SQL command against the access scope
+     * Every relation referenced by every statement is checked
      */
     static validateCommand(
         command: string,
         scope: AccessScope
     ): { valid: boolean; reason?: string } {
-        const upperCmd = command.trim().toUpperCase()
-
-        // Extract operation type
-        const operation = this.getOperationType(upperCmd)
-
-        // Check if operation is allowed
-        if (!scope.allowedOperations.includes(operation)) {
-            return {
-                valid: false,
-                reason: `Operation ${operation} not allowed. Permitted: ${scope.allowedOperations.join(', ')}`,
-            }
-        }
-
-        // Extract table from command
-        const table = this.extractTableFromCommand(command)
-
-        // Check if table is allowed
-        if (table && !scope.allowedTables.includes(table.toLowerCase())) {
-            return {
-                valid: false,
-                reason: `Table '${table}' not in allowed scope. Permitted: ${scope.allowedTables.join(', ')}`,
+        for (const statement of SqlParser.parse(command)) {
+            if (statement.parseError) {
+                return {
+                    valid: false,
+                    reason: `Unable to parse SQL statement: ${statement.parseError}`,
+                }
             }
-        }
 
-        // For write operations, check row filters
-        if (['UPDATE', 'DELETE', 'INSERT'].includes(operation) && table) {
-            const requiredFilter = scope.rowFilters[table.toLowerCase()]
+            const operations = [
+                statement.kind,
+                ...statement.relations.map(r => SqlParser.operationFor(r, statement)),
+            ]
 
-            if (requiredFilter) {
-                // Check if command contains the required WHERE conditions
-                const hasRequiredScope = this.hasRequiredScope(command, requiredFilter)
-
-                if (!hasRequiredScope) {
+            // Check if every operation is allowed
+            for (const operation of operations) {
+                if (!scope.allowedOperations.includes(operation)) {
                     return {
                         valid: false,
-                        reason: `Query must include scope filter: WHERE ${requiredFilter}`,
+                        reason: `Operation ${operation} not allowed. Permitted: ${scope.allowedOperations.join(', ')}`,
                     }
                 }
             }
-        }
-
-        return { valid: true }
-    }
-
-    /**
-     * Get operation type from SQL command
-     */
-    private static getOperationType(upperCmd: string): string {
-        if (upperCmd.startsWith('SELECT')) return 'SELECT'
-        if (upperCmd.startsWith('INSERT')) return 'INSERT'
-        if (upperCmd.startsWith('UPDATE')) return 'UPDATE'
-        if (upperCmd.startsWith('DELETE')) return 'DELETE'
-        if (upperCmd.startsWith('DROP')) return 'DROP'
-        if (upperCmd.startsWith('CREATE')) return 'CREATE'
-        if (upperCmd.startsWith('ALTER')) return 'ALTER'
-        if (upperCmd.startsWith('TRUNCATE')) return 'TRUNCATE'
-        return 'OTHER'
-    }
 
-    /**
-     * Extract table name from SQL command
-     */
-    private static extractTableFromCommand(command: string): string | null {
-        const patterns = [
-            /FROM\s+(\w+)/i,           // SELECT FROM table
-            /UPDATE\s+(\w+)/i,         // UPDATE table
-            /INTO\s+(\w+)/i,           // INSERT INTO table
-            /DELETE\s+FROM\s+(\w+)/i,  // DELETE FROM table
-            /TABLE\s+(\w+)/i,          // DROP TABLE / TRUNCATE TABLE
-        ]
-
-        for (const pattern of patterns) {
-            const match = command.match(pattern)
-            if (match) {
-                return match[1]
+            for (const relation of statement.relations) {
+                // Check if table is allowed
+                if (!SqlParser.matchesTable(relation, scope.allowedTables)) {
+                    return {
+                        valid: false,
+                        reason: `Table '${SqlParser.qualifiedName(relation)}' not in allowed scope. Permitted: ${scope.allowedTables.join(', ')}`,
+                    }
+                }
             }
-        }
 
-        return null
-    }
+            // For write operations, check row filters
+            for (const write of statement.writes) {
+                const requiredFilter = SqlParser.rowFilterFor(write.target, scope.rowFilters)
 
-    /**
-     * Check if command contains required scope conditions
-     */
-    private static hasRequiredScope(command: string, requiredFilter: string): boolean {
-        const lowerCmd = command.toLowerCase()
-
-        // Parse required conditions
-        const conditions = requiredFilter.toLowerCase().split(' and ').map(c => c.trim())
-
-        // Check each condition is present
-        for (const condition of conditions) {
-            // Extract field and value from "field = value"
-            const match = condition.match(/(\w+)\s*=\s*(\d+)/)
-            if (match) {
-                const field = match[1]
-                const value = match[2]
-
-                // Check if command contains this filter
-                const filterPattern = new RegExp(`${field}\\s*=\\s*${value}`, 'i')
-                if (!filterPattern.test(lowerCmd)) {
-                    return false
+                if (requiredFilter && !SqlParser.satisfiesFilter(write, requiredFilter)) {
+                    return {
+                        valid: false,
+                        reason: `Query must include scope filter: WHERE ${requiredFilter}`,
+                    }
                 }
             }
         }
 
-        return conditions.length > 0
+        return { valid: true }
     }
 }
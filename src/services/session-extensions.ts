@@ -0,0 +1,96 @@
+/**
+ * Session Extensions Service
+ * Votes on pending extensions of active sessions, shared by the extension
+ * decision API and the Slack buttons
+ */
+
+import { FlowContext } from 'motia'
+import { ApprovalRepository } from './approval-repository'
+import { AccessState, SessionExtension } from './glasskiss-types'
+import { RequestStateMachine } from './request-state-machine'
+
+export type ExtensionVoteOutcome =
+    | 'request_not_found'
+    | 'no_pending_extension'
+    | 'not_authorized'
+    | 'self_approval'
+    | 'already_voted'
+    | 'recorded'
+    | 'approved'
+    | 'rejected'
+
+export interface ExtensionVote {
+    outcome: ExtensionVoteOutcome
+    requestState?: AccessState
+    extension?: SessionExtension
+}
+
+export class SessionExtensions {
+    /**
+     * The extension still waiting for approvers, if any
+     */
+    static pending(requestState: AccessState): SessionExtension | undefined {
+        return requestState.extensions?.find(extension => extension.status === 'pending')
+    }
+
+    /**
+     * Record an approver's decision on the pending extension
+     * Outcome 'approved' means the last required approval just arrived
+     */
+    static async vote(
+        requestId: string,
+        approver: string,
+        approve: boolean,
+        { state }: Pick<FlowContext, 'state'>
+    ): Promise<ExtensionVote> {
+        // Same lock as request approvals and status changes, so none of them interleave
+        return RequestStateMachine.withRequest(state, requestId, async () => {
+            const requestState = await state.get<AccessState>('access-requests', requestId)
+            if (!requestState) {
+                return { outcome: 'request_not_found' }
+            }
+
+            const extension = this.pending(requestState)
+            if (!extension) {
+                return { outcome: 'no_pending_extension', requestState }
+            }
+
+            const same = (a: string) => ApprovalRepository.isSameIdentity(a, approver)
+
+            if (!extension.approvers.some(same)) {
+                return { outcome: 'not_authorized', requestState, extension }
+            }
+
+            if (approve && same(requestState.requester)) {
+                return { outcome: 'self_approval', requestState, extension }
+            }
+
+            if (extension.approvals.some(same)) {
+                return { outcome: 'already_voted', requestState, extension }
+            }
+
+            const now = new Date().toISOString()
+            const updated: SessionExtension = approve
+                ? { ...extension, approvals: [...extension.approvals, approver] }
+                : { ...extension, status: 'rejected', decidedAt: now, decidedBy: approver }
+
+            if (approve && updated.approvals.length >= updated.requiredApprovals) {
+                updated.status = 'approved'
+                updated.decidedAt = now
+                updated.decidedBy = approver
+            }
+
+            const updatedState: AccessState = {
+                ...requestState,
+                extensions: (requestState.extensions ?? []).map(e => e.id === extension.id ? updated : e),
+            }
+            await state.set('access-requests', requestId, updatedState)
+
+            return {
+                outcome: updated.status === 'pending' ? 'recorded' : updated.status === 'approved' ? 'approved' : 'rejected',
+                requestState: updatedState,
+                extension: updated,
+            }
+        })
+    }
+}
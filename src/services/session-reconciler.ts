@@ -0,0 +1,200 @@
+/**
+ * Session Reconciler Service
+ * Brings the credentials state group, glasskiss_temp_users and the real roles
+ * back into agreement after a restart or a partial failure
+ */
+
+import { randomUUID } from 'crypto'
+import { FlowContext } from 'motia'
+import { CredentialProviders } from './credential-provider'
+import { AccessState, Credentials } from './glasskiss-types'
+import { RequestStateMachine } from './request-state-machine'
+import { RevocationSchedule } from './revocation-schedule'
+
+type ReconcileContext = Pick<FlowContext, 'state' | 'logger'>
+
+export type ReconciliationTrigger = 'startup' | 'manual'
+
+export interface ReconciliationReport {
+    id: string
+    trigger: ReconciliationTrigger
+    startedAt: string
+    completedAt: string
+    providers: string[]
+    rolesChecked: number
+    stateEntriesChecked: number
+    orphanedRoles: Array<{ username: string; provider: string; requestId?: string; revoked: boolean }>
+    missingRoles: Array<{ requestId: string; username: string; resource: string }>
+    closedTracking: string[]    // glasskiss_temp_users rows whose role was gone
+    inFlight: string[]          // roles left alone because provisioning is still running
+    errors: string[]
+}
+
+export class SessionReconciler {
+    /**
+     * Revoke roles nobody knows about, mark state entries whose role is gone
+     * as revoked, and write the report to each provider's audit log
+     */
+    static async reconcile(
+        trigger: ReconciliationTrigger,
+        { state, logger }: ReconcileContext
+    ): Promise<ReconciliationReport> {
+        const report: ReconciliationReport = {
+            id: randomUUID(),
+            trigger,
+            startedAt: new Date().toISOString(),
+            completedAt: '',
+            providers: [],
+            rolesChecked: 0,
+            stateEntriesChecked: 0,
+            orphanedRoles: [],
+            missingRoles: [],
+            closedTracking: [],
+            inFlight: [],
+            errors: [],
+        }
+
+        const credentials = await state.getGroup<Credentials>('credentials')
+        const knownUsernames = new Set(credentials.map(credential => credential.username))
+        const seenRoles = new Set<string>()
+        const providers = CredentialProviders.all().filter(provider => provider.verifiable)
+
+        report.stateEntriesChecked = credentials.length
+        report.providers = providers.map(provider => provider.name)
+
+        // Roles in the database that no state entry accounts for
+        for (const provider of providers) {
+            try {
+                const managed = await provider.listManaged()
+                report.rolesChecked += managed.length
+
+                for (const role of managed) {
+                    if (knownUsernames.has(role.username) || seenRoles.has(role.username)) {
+                        continue
+                    }
+                    seenRoles.add(role.username)
+
+                    // The snapshot above predates listing the roles: a role provisioned
+                    // since then has credentials now and is not an orphan
+                    if (await this.isKnown(state, role.username, role.requestId)) {
+                        continue
+                    }
+
+                    // Approved but not yet active: the role exists before its credentials are stored
+                    if (role.requestId && await this.isProvisioning(state, role.requestId)) {
+                        report.inFlight.push(role.username)
+                        continue
+                    }
+
+                    logger.warn('Revoking role unknown to GlassKiss', {
+                        username: role.username,
+                        requestId: role.requestId,
+                        provider: provider.name,
+                    })
+
+                    const revoked = await provider.revoke(
+                        role.username,
+                        role.requestId ?? report.id,
+                        'reconciled'
+                    )
+                    report.orphanedRoles.push({
+                        username: role.username,
+                        provider: provider.name,
+                        requestId: role.requestId,
+                        revoked,
+                    })
+                }
+
+                report.closedTracking.push(...await provider.closeMissing())
+            } catch (error) {
+                logger.error('Reconciliation failed for provider', { provider: provider.name, error })
+                report.errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`)
+            }
+        }
+
+        // State entries whose role no longer exists
+        for (const credential of credentials) {
+            const provider = CredentialProviders.forResource(credential.resource)
+            if (!provider.verifiable) {
+                continue
+            }
+
+            try {
+                if (await provider.exists(credential.username)) {
+                    continue
+                }
+            } catch (error) {
+                report.errors.push(`${credential.username}: ${error instanceof Error ? error.message : String(error)}`)
+                continue
+            }
+
+            logger.warn('Role for active credential is gone, marking revoked', {
+                requestId: credential.requestId,
+                username: credential.username,
+            })
+
+            await RequestStateMachine.transition(state, credential.requestId, 'revoked', {
+                actor: 'reconciler',
+                reason: `Role ${credential.username} no longer exists`,
+                changes: {
+                    revokedAt: new Date().toISOString(),
+                    revokeReason: 'reconciled',
+                },
+            })
+            await state.delete('credentials', credential.requestId)
+            await RevocationSchedule.complete(state, credential.requestId)
+
+            report.missingRoles.push({
+                requestId: credential.requestId,
+                username: credential.username,
+                resource: credential.resource,
+            })
+        }
+
+        report.completedAt = new Date().toISOString()
+
+        const { id, ...details } = report
+        for (const provider of providers) {
+            try {
+                await provider.recordAudit(id, 'RECONCILE', details)
+            } catch (error) {
+                logger.error('Failed to write reconciliation report to audit log', {
+                    provider: provider.name,
+                    error,
+                })
+            }
+        }
+
+        logger.info('Reconciliation complete', {
+            reportId: id,
+            trigger,
+            rolesChecked: report.rolesChecked,
+            orphanedRoles: report.orphanedRoles.length,
+            missingRoles: report.missingRoles.length,
+            closedTracking: report.closedTracking.length,
+            errors: report.errors.length,
+        })
+
+        return report
+    }
+
+    /**
+     * Fresh check that state has credentials for a role
+     */
+    private static async isKnown(state: FlowContext['state'], username: string, requestId?: string): Promise<boolean> {
+        if (requestId) {
+            const credential = await state.get<Credentials>('credentials', requestId)
+            if (credential?.username === username) {
+                return true
+            }
+        }
+
+        const credentials = await state.getGroup<Credentials>('credentials')
+        return credentials.some(credential => credential.username === username)
+    }
+
+    private static async isProvisioning(state: FlowContext['state'], requestId: string): Promise<boolean> {
+        const requestState = await state.get<AccessState>('access-requests', requestId)
+        return requestState?.status === 'approved'
+    }
+}
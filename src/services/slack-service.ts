@@ -4,6 +4,7 @@
  */
 
 import { WebClient } from '@slack/web-api'
+import { FreezeState } from './glasskiss-types'
 
 // Initialize Slack client
 const slack = new WebClient(process.env.SLACK_BOT_TOKEN)
@@ -18,6 +19,20 @@ export interface ApprovalNotification {
     riskScore: number
     requiredApprovals: number
     approvers: string[]
+    policy?: string     // e.g. "2 of sre OR 1 of security"
+    expiresAt?: string  // request expires if still undecided then
+}
+
+export interface ExtensionNotification {
+    requestId: string
+    requester: string
+    resource: string
+    minutes: number
+    justification: string
+    currentExpiresAt: string
+    riskScore: number
+    requiredApprovals: number
+    approvers: string[]
 }
 
 export interface AlertNotification {
@@ -28,6 +43,24 @@ export interface AlertNotification {
     severity: 'low' | 'medium' | 'high' | 'critical'
 }
 
+export interface ApprovalSlaNotice {
+    requestId: string
+    requester: string
+    resource: string
+    step: 'reminder' | 'escalation' | 'expiry'
+    notify: string[]        // Slack mentions or names
+    details?: string
+    policy?: string
+    expireAt: string
+}
+
+export interface FrozenSession {
+    requestId: string
+    requester: string
+    resource: string
+    username: string
+}
+
 export class SlackService {
     /**
      * Test Slack connection
@@ -99,7 +132,7 @@ export class SlackService {
                         fields: [
                             {
                                 type: 'mrkdwn',
-                                text: `*Required Approvals:*\n${notification.requiredApprovals}`
+                                text: `*Required Approvals:*\n${notification.policy ?? notification.requiredApprovals}`
                             },
                             {
                                 type: 'mrkdwn',
@@ -112,7 +145,7 @@ export class SlackService {
                         elements: [
                             {
                                 type: 'mrkdwn',
-                                text: `Request ID: \`${notification.requestId}\``
+                                text: `Request ID: \`${notification.requestId}\`${notification.expiresAt ? ` | Expires if undecided at ${notification.expiresAt}` : ''}`
                             }
                         ]
                     },
@@ -130,10 +163,9 @@ export class SlackService {
                                 action_id: `approve_${notification.requestId}`,
                                 // When Slack interactivity URL is configured, this button
                                 // will POST to /slack/interactivity endpoint
-                                // For local dev without ngrok, use the API directly:
-                                // curl -X POST http://localhost:3000/slack/interactivity \
-                                //   -H "Content-Type: application/json" \
-                                //   -d '{"action":"approve","requestId":"xxx","approver":"you"}'
+                                // For local dev without ngrok, approve with an approver token:
+                                // curl -X POST http://localhost:3000/approve/xxx \
+                                //   -H "Authorization: Bearer <approverToken>"
                             },
                             {
                                 type: 'button',
@@ -199,6 +231,112 @@ export class SlackService {
         }
     }
 
+    /**
+     * Ask the original approvers to extend an active session
+     */
+    static async sendExtensionRequest(notification: ExtensionNotification): Promise<boolean> {
+        try {
+            const riskEmoji = notification.riskScore > 70 ? '🔴' :
+                notification.riskScore > 40 ? '🟡' : '🟢'
+
+            await slack.chat.postMessage({
+                channel: defaultChannel,
+                text: `⏱️ Extension Request: ${notification.requester} wants ${notification.minutes} more minutes on ${notification.resource}`,
+                blocks: [
+                    {
+                        type: 'header',
+                        text: {
+                            type: 'plain_text',
+                            text: '⏱️ Session Extension Pending Approval',
+                            emoji: true
+                        }
+                    },
+                    {
+                        type: 'section',
+                        fields: [
+                            {
+                                type: 'mrkdwn',
+                                text: `*Requester:*\n${notification.requester}`
+                            },
+                            {
+                                type: 'mrkdwn',
+                                text: `*Resource:*\n${notification.resource}`
+                            },
+                            {
+                                type: 'mrkdwn',
+                                text: `*Extra Time:*\n${notification.minutes} minutes`
+                            },
+                            {
+                                type: 'mrkdwn',
+                                text: `*Risk Score:*\n${riskEmoji} ${notification.riskScore}/100`
+                            }
+                        ]
+                    },
+                    {
+                        type: 'section',
+                        text: {
+                            type: 'mrkdwn',
+                            text: `*Justification:*\n> ${notification.justification}`
+                        }
+                    },
+                    {
+                        type: 'section',
+                        fields: [
+                            {
+                                type: 'mrkdwn',
+                                text: `*Required Approvals:*\n${notification.requiredApprovals}`
+                            },
+                            {
+                                type: 'mrkdwn',
+                                text: `*Original Approvers:*\n${notification.approvers.join(', ')}`
+                            }
+                        ]
+                    },
+                    {
+                        type: 'context',
+                        elements: [
+                            {
+                                type: 'mrkdwn',
+                                text: `Request ID: \`${notification.requestId}\` | Currently expires ${notification.currentExpiresAt}`
+                            }
+                        ]
+                    },
+                    {
+                        type: 'actions',
+                        elements: [
+                            {
+                                type: 'button',
+                                text: {
+                                    type: 'plain_text',
+                                    text: '✅ Extend',
+                                    emoji: true
+                                },
+                                style: 'primary',
+                                action_id: `approve-extension_${notification.requestId}`,
+                            },
+                            {
+                                type: 'button',
+                                text: {
+                                    type: 'plain_text',
+                                    text: '❌ Deny',
+                                    emoji: true
+                                },
+                                style: 'danger',
+                                action_id: `reject-extension_${notification.requestId}`,
+                            }
+                        ]
+                    }
+                ]
+            })
+
+            console.log(`[SLACK] ✅ Sent extension request for ${notification.requestId}`)
+            return true
+        } catch (error) {
+            console.error('[SLACK] ❌ Failed to send extension request:', error)
+            return false
+        }
+    }
+
     /**
      * Send security alert
      */
@@ -316,4 +454,178 @@ export class SlackService {
             return false
         }
     }
+
+    /**
+     * One consolidated notice for an emergency freeze and everything it revoked
+     */
+    static async sendFreezeNotice(freeze: FreezeState, sessions: FrozenSession[]): Promise<boolean> {
+        try {
+            const sessionList = sessions.length > 0
+                ? sessions
+                    .map(session => `• \`${session.username}\` on *${session.resource}* (${session.requester}, \`${session.requestId}\`)`)
+                    .join('\n')
+                : '_No active sessions_'
+
+            await slack.chat.postMessage({
+                channel: defaultChannel,
+                text: `🛑 EMERGENCY FREEZE: ${sessions.length} session(s) revoked`,
+                blocks: [
+                    {
+                        type: 'header',
+                        text: {
+                            type: 'plain_text',
+                            text: '🛑 EMERGENCY FREEZE',
+                            emoji: true
+                        }
+                    },
+                    {
+                        type: 'section',
+                        fields: [
+                            {
+                                type: 'mrkdwn',
+                                text: `*Frozen by:*\n${freeze.frozenBy}`
+                            },
+                            {
+                                type: 'mrkdwn',
+                                text: `*Reason:*\n${freeze.reason}`
+                            }
+                        ]
+                    },
+                    {
+                        type: 'section',
+                        text: {
+                            type: 'mrkdwn',
+                            text: `*Revoked sessions (${sessions.length}):*\n${sessionList}`
+                        }
+                    },
+                    {
+                        type: 'context',
+                        elements: [
+                            {
+                                type: 'mrkdwn',
+                                text: `New access requests are refused until the freeze is lifted | Freeze \`${freeze.id}\` at ${freeze.frozenAt}`
+                            }
+                        ]
+                    }
+                ]
+            })
+
+            console.log(`[SLACK] ✅ Sent freeze notice: ${sessions.length} session(s)`)
+            return true
+        } catch (error) {
+            console.error('[SLACK] ❌ Failed to send freeze notice:', error)
+            return false
+        }
+    }
+
+    /**
+     * Notice that an emergency freeze was lifted
+     */
+    static async sendUnfreezeNotice(freeze: FreezeState): Promise<boolean> {
+        try {
+            await slack.chat.postMessage({
+                channel: defaultChannel,
+                text: `✅ Emergency freeze lifted by ${freeze.liftedBy}`,
+                blocks: [
+                    {
+                        type: 'section',
+                        text: {
+                            type: 'mrkdwn',
+                            text: `✅ *Emergency freeze lifted* by *${freeze.liftedBy}*\n\nAccess requests are accepted again.${freeze.liftReason ? `\n*Reason:* ${freeze.liftReason}` : ''}`
+                        }
+                    },
+                    {
+                        type: 'context',
+                        elements: [
+                            {
+                                type: 'mrkdwn',
+                                text: `Freeze \`${freeze.id}\` from ${freeze.frozenAt} to ${freeze.liftedAt}`
+                            }
+                        ]
+                    }
+                ]
+            })
+
+            return true
+        } catch (error) {
+            console.error('[SLACK] ❌ Failed to send unfreeze notice:', error)
+            return false
+        }
+    }
+
+    /**
+     * Follow-up on an approval past its SLA: reminder, escalation or expiry
+     */
+    static async sendApprovalSlaNotice(notice: ApprovalSlaNotice): Promise<boolean> {
+        const titles = {
+            reminder: '⏰ Approval reminder',
+            escalation: '📈 Approval escalated',
+            expiry: '⌛ Access request expired',
+        }
+        const title = titles[notice.step]
+        const open = notice.step !== 'expiry'
+
+        try {
+            await slack.chat.postMessage({
+                channel: defaultChannel,
+                text: `${title}: ${notice.requestId}`,
+                blocks: [
+                    {
+                        type: 'section',
+                        text: {
+                            type: 'mrkdwn',
+                            text: open
+                                ? `*${title}*\n\n*${notice.requester}* is still waiting for access to \`${notice.resource}\`.\n${notice.notify.join(' ')}`
+                                : `*${title}*\n\nNobody decided on *${notice.requester}*'s request for \`${notice.resource}\` in time; it will not be provisioned.`
+                        }
+                    },
+                    {
+                        type: 'section',
+                        fields: [
+                            {
+                                type: 'mrkdwn',
+                                text: `*Required Approvals:*\n${notice.policy ?? 'unchanged'}`
+                            },
+                            {
+                                type: 'mrkdwn',
+                                text: open ? `*Expires At:*\n${notice.expireAt}` : `*Expired At:*\n${notice.expireAt}`
+                            }
+                        ]
+                    },
+                    {
+                        type: 'context',
+                        elements: [
+                            {
+                                type: 'mrkdwn',
+                                text: `Request ID: \`${notice.requestId}\`${notice.details ? ` | ${notice.details}` : ''}`
+                            }
+                        ]
+                    },
+                    ...(open ? [{
+                        type: 'actions' as const,
+                        elements: [
+                            {
+                                type: 'button' as const,
+                                text: { type: 'plain_text' as const, text: '✅ Approve', emoji: true },
+                                style: 'primary' as const,
+                                action_id: `approve_${notice.requestId}`,
+                            },
+                            {
+                                type: 'button' as const,
+                                text: { type: 'plain_text' as const, text: '❌ Reject', emoji: true },
+                                style: 'danger' as const,
+                                action_id: `reject_${notice.requestId}`,
+                            }
+                        ]
+                    }] : [])
+                ]
+            })
+
+            console.log(`[SLACK] ✅ Sent approval ${notice.step} for ${notice.requestId}`)
+            return true
+        } catch (error) {
+            console.error(`[SLACK] ❌ Failed to send approval ${notice.step}:`, error)
+            return false
+        }
+    }
 }
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { SqlParser } from './sql-parser'
+
+const relationsOf = (sql: string) =>
+    SqlParser.parse(sql).flatMap(statement => statement.relations.map(r => SqlParser.qualifiedName(r)))
+
+describe('SqlParser.parse', () => {
+    it('reports every relation of a join', () => {
+        expect(relationsOf('SELECT * FROM users u JOIN orders o ON o.user_id = u.id')).toEqual(['users', 'orders'])
+    })
+
+    it('splits batches on top-level semicolons only', () => {
+        const statements = SqlParser.parse("SELECT ';' FROM users; DELETE FROM orders WHERE id = 1")
+
+        expect(statements.map(s => s.kind)).toEqual(['SELECT', 'DELETE'])
+    })
+
+    it('returns parseError for invalid SQL instead of throwing', () => {
+        const [statement] = SqlParser.parse('SELEC * FROM users')
+
+        expect(statement.kind).toBe('OTHER')
+        expect(statement.parseError).toBeDefined()
+    })
+
+    it('reads a SELECT ... FOR UPDATE as a read', () => {
+        const [statement] = SqlParser.parse('SELECT * FROM users WHERE id = 1 FOR UPDATE')
+
+        expect(statement.parseError).toBeUndefined()
+        expect(statement.kind).toBe('SELECT')
+        expect(statement.relations).toEqual([{ schema: undefined, name: 'users', alias: undefined, role: 'read' }])
+        expect(statement.writes).toEqual([])
+    })
+
+    describe('CTEs', () => {
+        it('does not report a CTE as a table', () => {
+            expect(relationsOf('WITH recent AS (SELECT * FROM orders) SELECT * FROM recent')).toEqual(['orders'])
+        })
+
+        it('reports the real table a CTE of the same name reads', () => {
+            expect(relationsOf('WITH secrets AS (SELECT * FROM secrets) SELECT * FROM secrets')).toEqual(['secrets'])
+        })
+
+        it('lets later CTEs read earlier ones', () => {
+            expect(relationsOf('WITH a AS (SELECT * FROM users), b AS (SELECT * FROM a) SELECT * FROM b')).toEqual(['users'])
+        })
+
+        it('keeps a CTE in a subquery out of the outer query', () => {
+            const sql = 'SELECT * FROM (WITH secrets AS (SELECT 1) SELECT * FROM secrets) a, secrets'
+
+            expect(relationsOf(sql)).toEqual(['secrets'])
+        })
+
+        it('lets a recursive CTE read itself', () => {
+            const sql = 'WITH RECURSIVE t(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM t) SELECT * FROM t'
+
+            expect(relationsOf(sql)).toEqual([])
+        })
+
+        it('reports schema-qualified names even when a CTE shares the name', () => {
+            expect(relationsOf('WITH users AS (SELECT 1) SELECT * FROM public.users')).toEqual(['public.users'])
+        })
+    })
+
+    it('records write targets and their WHERE predicates', () => {
+        const [statement] = SqlParser.parse("UPDATE users SET name = 'x' WHERE id = 5 AND tenant_id IN (1, 2)")
+
+        expect(statement.writes).toHaveLength(1)
+        expect(statement.writes[0].target.role).toBe('update')
+        expect(statement.writes[0].predicates).toEqual([
+            { qualifier: undefined, column: 'id', operator: '=', values: ['5'] },
+            { qualifier: undefined, column: 'tenant_id', operator: 'IN', values: ['1', '2'] },
+        ])
+    })
+})
+
+describe('SqlParser.matchesTable', () => {
+    it('folds unquoted configured names and keeps quoted ones exact', () => {
+        const [statement] = SqlParser.parse('SELECT * FROM "Users"')
+
+        expect(SqlParser.matchesTable(statement.relations[0], ['Users'])).toBe(false)
+        expect(SqlParser.matchesTable(statement.relations[0], ['"Users"'])).toBe(true)
+    })
+
+    it('matches bare entries to the public schema only', () => {
+        const [statement] = SqlParser.parse('SELECT * FROM audit.users')
+
+        expect(SqlParser.matchesTable(statement.relations[0], ['users'])).toBe(false)
+        expect(SqlParser.matchesTable(statement.relations[0], ['audit.users'])).toBe(true)
+    })
+})
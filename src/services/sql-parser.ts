@@ -0,0 +1,613 @@
+/**
+ * SQL Parser Service
+ * Turns raw SQL into a parsed statement model used by every enforcement check
+ * Backed by a real PostgreSQL grammar, so JOINs, subqueries, CTEs and
+ * quoted / schema-qualified identifiers are all resolved to concrete relations
+ */
+
+import { parse, Expr, QName, Statement } from 'pgsql-ast-parser'
+
+export type StatementKind =
+    | 'SELECT'
+    | 'INSERT'
+    | 'UPDATE'
+    | 'DELETE'
+    | 'DROP'
+    | 'CREATE'
+    | 'ALTER'
+    | 'TRUNCATE'
+    | 'OTHER'
+
+// How a statement touches a relation
+export type RelationRole = 'read' | 'insert' | 'update' | 'delete' | 'ddl'
+
+export interface RelationRef {
+    schema?: string
+    name: string
+    alias?: string
+    role: RelationRole
+}
+
+// A top-level AND-ed condition of the form `column = literal` or `column IN (literals)`
+export interface WherePredicate {
+    qualifier?: string  // table name or alias the column was qualified with
+    column: string
+    operator: '=' | 'IN'
+    values: string[]
+}
+
+// One data-modifying clause (the statement itself, or a writable CTE)
+export interface WriteClause {
+    target: RelationRef
+    hasWhere: boolean
+    predicates: WherePredicate[]
+    returning: boolean
+}
+
+export interface ParsedStatement {
+    kind: StatementKind
+    sql: string
+    relations: RelationRef[]
+    writes: WriteClause[]
+    where: WherePredicate[]  // predicates of the outermost statement
+    hasWhere: boolean
+    hasLimit: boolean
+    limit?: number           // only set when the LIMIT is a literal row count
+    returning: boolean
+    functions: string[]      // every function called, schema-qualified when the query qualified it
+    parseError?: string
+}
+
+const ROLE_OPERATIONS: Record<Exclude<RelationRole, 'ddl'>, StatementKind> = {
+    read: 'SELECT',
+    insert: 'INSERT',
+    update: 'UPDATE',
+    delete: 'DELETE',
+}
+
+export class SqlParser {
+    /**
+     * Parses a SQL command into one model per statement.
+     * Each statement is parsed on its own, so an unparseable statement yields
+     * an OTHER entry carrying parseError and callers can fail closed on it
+     * without losing the rest of the batch.
+     */
+    static parse(sql: string): ParsedStatement[] {
+        const statements = this.split(sql)
+
+        if (statements.length === 0) {
+            return [this.unparsed(sql, 'Empty statement')]
+        }
+
+        return statements.map(text => this.parseOne(text))
+    }
+
+    /**
+     * Splits a command into statements on top-level semicolons.
+     * Semicolons inside quoted strings, quoted identifiers, dollar-quoted
+     * bodies and comments do not split.
+     */
+    static split(sql: string): string[] {
+        const statements: string[] = []
+        let current = ''
+        let i = 0
+
+        while (i < sql.length) {
+            const char = sql[i]
+            const next = sql[i + 1]
+
+            // -- line comment
+            if (char === '-' && next === '-') {
+                const end = sql.indexOf('\n', i)
+                const stop = end === -1 ? sql.length : end
+                current += sql.slice(i, stop)
+                i = stop
+                continue
+            }
+
+            // /* block comment */ (Postgres allows nesting)
+            if (char === '/' && next === '*') {
+                let depth = 0
+                let j = i
+                while (j < sql.length) {
+                    if (sql[j] === '/' && sql[j + 1] === '*') {
+                        depth++
+                        j += 2
+                    } else if (sql[j] === '*' && sql[j + 1] === '/') {
+                        depth--
+                        j += 2
+                        if (depth === 0) break
+                    } else {
+                        j++
+                    }
+                }
+                current += sql.slice(i, j)
+                i = j
+                continue
+            }
+
+            // 'string', E'escaped\' string' and "identifier"
+            if (char === "'" || char === '"') {
+                const escaped = char === "'" && /[eE]$/.test(current) && !/\w[eE]$/.test(current)
+                let j = i + 1
+                while (j < sql.length) {
+                    if (escaped && sql[j] === '\\') {
+                        j += 2
+                        continue
+                    }
+                    if (sql[j] === char) {
+                        // Doubled quote is an escaped quote
+                        if (sql[j + 1] === char) {
+                            j += 2
+                            continue
+                        }
+                        break
+                    }
+                    j++
+                }
+                current += sql.slice(i, j + 1)
+                i = j + 1
+                continue
+            }
+
+            // $tag$ dollar-quoted body $tag$
+            if (char === '$') {
+                const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/)
+                if (tag && !/[\w$]$/.test(current)) {
+                    const end = sql.indexOf(tag[0], i + tag[0].length)
+                    const stop = end === -1 ? sql.length : end + tag[0].length
+                    current += sql.slice(i, stop)
+                    i = stop
+                    continue
+                }
+            }
+
+            if (char === ';') {
+                if (current.trim()) statements.push(current.trim())
+                current = ''
+                i++
+                continue
+            }
+
+            current += char
+            i++
+        }
+
+        if (current.trim()) statements.push(current.trim())
+
+        // Drop pieces that are nothing but comments
+        return statements.filter(statement => this.stripComments(statement).trim().length > 0)
+    }
+
+    /**
+     * SQL operation a statement performs on a given relation
+     */
+    static operationFor(relation: RelationRef, statement: ParsedStatement): StatementKind {
+        return relation.role === 'ddl' ? statement.kind : ROLE_OPERATIONS[relation.role]
+    }
+
+    /**
+     * Display name for a relation, schema-qualified when the query qualified it
+     */
+    static qualifiedName(relation: RelationRef): string {
+        return relation.schema ? `${relation.schema}.${relation.name}` : relation.name
+    }
+
+    /**
+     * Check whether a relation is covered by a list of table names.
+     * Entries may be bare (`users`, matches the public schema) or qualified (`audit.events`),
+     * and are folded like SQL identifiers: `Users` means `users`, `"Users"` only `"Users"`.
+     */
+    static matchesTable(relation: RelationRef, tables: string[]): boolean {
+        return tables.some(entry => {
+            const [first, second] = this.identifierParts(entry)
+            const [entrySchema, entryName] = second !== undefined ? [first, second] : [undefined, first]
+
+            if (entryName !== relation.name) return false
+            if (entrySchema) return entrySchema === (relation.schema ?? 'public')
+            return !relation.schema || relation.schema === 'public'
+        })
+    }
+
+    /**
+     * Row filter a scope sets for a relation, keyed by table name as in matchesTable
+     */
+    static rowFilterFor(relation: RelationRef, rowFilters: Record<string, string>): string | undefined {
+        const key = Object.keys(rowFilters).find(table => this.matchesTable(relation, [table]))
+        return key === undefined ? undefined : rowFilters[key]
+    }
+
+    /**
+     * Split a configured name into its dot-separated parts, folded the way
+     * Postgres folds identifiers: unquoted parts lowercased, quoted parts kept
+     * exactly. The parser already does this for names in queries.
+     */
+    static identifierParts(name: string): string[] {
+        const parts = name.trim().match(/"(?:[^"]|"")*"|[^.]+/g) ?? []
+        return parts.map(part => part.startsWith('"')
+            ? part.slice(1, -1).replace(/""/g, '"')
+            : part.trim().toLowerCase())
+    }
+
+    /**
+     * Check that a write clause is constrained by every condition in a filter
+     * such as `user_id = 123 AND id = 5`
+     */
+    static satisfiesFilter(write: WriteClause, filter: string): boolean {
+        let required: WherePredicate[]
+
+        try {
+            required = this.collectPredicates(parse(filter, 'expr'))
+        } catch {
+            return false
+        }
+
+        if (required.length === 0) {
+            return false
+        }
+
+        return required.every(condition =>
+            write.predicates.some(predicate =>
+                predicate.column === condition.column &&
+                this.qualifierMatches(predicate.qualifier, write.target) &&
+                predicate.values.length > 0 &&
+                predicate.values.every(value => condition.values.includes(value))
+            )
+        )
+    }
+
+    /**
+     * Parse a row filter strictly: every AND-ed condition must be a simple
+     * `column = literal` or `column IN (literals)`. Returns null otherwise, so
+     * the filter can be rebuilt safely (e.g. as an RLS policy expression).
+     */
+    static parseFilter(filter: string): WherePredicate[] | null {
+        let expr: Expr
+
+        try {
+            expr = parse(filter, 'expr')
+        } catch {
+            return null
+        }
+
+        const conditions = this.conjuncts(expr).map(conjunct => this.collectPredicates(conjunct))
+        return conditions.every(predicates => predicates.length === 1) ? conditions.flat() : null
+    }
+
+    private static conjuncts(expr: Expr): Expr[] {
+        return expr.type === 'binary' && expr.op === 'AND'
+            ? [...this.conjuncts(expr.left), ...this.conjuncts(expr.right)]
+            : [expr]
+    }
+
+    private static parseOne(sql: string): ParsedStatement {
+        let ast: Statement[]
+
+        try {
+            ast = parse(sql)
+        } catch (error: any) {
+            const message: string = error?.message ?? String(error)
+            return this.unparsed(sql, message.split('\n')[0])
+        }
+
+        if (ast.length !== 1) {
+            return this.unparsed(sql, `Expected a single statement, found ${ast.length}`)
+        }
+
+        return this.buildStatement(ast[0], sql)
+    }
+
+    private static buildStatement(statement: Statement, sql: string): ParsedStatement {
+        const walker = new StatementWalker()
+
+        // A statement shape the walker does not expect must not pass unchecked
+        try {
+            walker.walk(statement)
+        } catch (error: any) {
+            return this.unparsed(sql, `Unable to analyze statement: ${error?.message ?? String(error)}`)
+        }
+
+        const primary = this.primaryStatement(statement)
+        const primaryWhere = 'where' in primary ? primary.where : undefined
+        const primaryWrite = walker.writes.find(w => w.node === primary)
+
+        return {
+            kind: this.kindOf(primary),
+            sql,
+            relations: walker.relations,
+            writes: walker.writes.map(w => w.clause),
+            where: primaryWrite ? primaryWrite.clause.predicates : this.collectPredicates(primaryWhere),
+            hasWhere: !!primaryWhere,
+            hasLimit: !!primary?.limit?.limit,
+            limit: this.limitOf(primary),
+            returning: walker.writes.some(w => w.clause.returning),
+            functions: [...new Set(walker.functions)],
+        }
+    }
+
+    private static unparsed(sql: string, parseError: string): ParsedStatement {
+        return {
+            kind: 'OTHER',
+            sql: sql.trim(),
+            relations: [],
+            writes: [],
+            where: [],
+            hasWhere: false,
+            hasLimit: false,
+            returning: false,
+            functions: [],
+            parseError,
+        }
+    }
+
+    /**
+     * Resolve WITH wrappers to the statement that actually runs
+     */
+    private static primaryStatement(statement: any): any {
+        let current = statement
+        while (current?.type === 'with' || current?.type === 'with recursive') {
+            current = current.in
+        }
+        return current
+    }
+
+    private static kindOf(statement: any): StatementKind {
+        const type: string = statement?.type ?? ''
+
+        if (['select', 'union', 'union all', 'values'].includes(type)) return 'SELECT'
+        if (type === 'insert') return 'INSERT'
+        if (type === 'update') return 'UPDATE'
+        if (type === 'delete') return 'DELETE'
+        if (type === 'truncate table') return 'TRUNCATE'
+        if (type.startsWith('drop')) return 'DROP'
+        if (type.startsWith('create')) return 'CREATE'
+        if (type.startsWith('alter')) return 'ALTER'
+        return 'OTHER'
+    }
+
+    private static limitOf(statement: any): number | undefined {
+        const limit = statement?.limit?.limit
+        if (limit && (limit.type === 'integer' || limit.type === 'numeric')) {
+            return Number(limit.value)
+        }
+        return undefined
+    }
+
+    /**
+     * Collect top-level AND-ed equality / IN predicates.
+     * Anything under an OR is ignored because it does not constrain the row set.
+     */
+    static collectPredicates(expr: Expr | null | undefined): WherePredicate[] {
+        if (!expr) return []
+
+        if (expr.type === 'binary' && expr.op === 'AND') {
+            return [...this.collectPredicates(expr.left), ...this.collectPredicates(expr.right)]
+        }
+
+        if (expr.type === 'binary' && expr.op === '=') {
+            const [ref, value] = expr.left.type === 'ref' ? [expr.left, expr.right] : [expr.right, expr.left]
+            const literal = this.literalValue(value)
+
+            if (ref.type === 'ref' && ref.name !== '*' && literal !== undefined) {
+                return [{ qualifier: ref.table?.name, column: ref.name, operator: '=', values: [literal] }]
+            }
+        }
+
+        if (expr.type === 'binary' && expr.op === 'IN' && expr.left.type === 'ref' && expr.right.type === 'list') {
+            const values = expr.right.expressions.map(e => this.literalValue(e))
+
+            if (expr.left.name !== '*' && values.every(v => v !== undefined)) {
+                return [{
+                    qualifier: expr.left.table?.name,
+                    column: expr.left.name,
+                    operator: 'IN',
+                    values: values as string[],
+                }]
+            }
+        }
+
+        return []
+    }
+
+    static literalValue(expr: Expr): string | undefined {
+        switch (expr.type) {
+            case 'integer':
+            case 'numeric':
+            case 'boolean':
+                return String(expr.value)
+            case 'string':
+                return expr.value
+            case 'cast':
+                return this.literalValue(expr.operand)
+            default:
+                return undefined
+        }
+    }
+
+    private static stripComments(sql: string): string {
+        return sql.replace(/--[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '')
+    }
+
+    private static qualifierMatches(qualifier: string | undefined, target: RelationRef): boolean {
+        return !qualifier || qualifier === target.name || qualifier === target.alias
+    }
+}
+
+/**
+ * Walks a statement AST and records every relation it touches.
+ * CTE names are tracked so `WITH x AS (...) SELECT * FROM x` does not report `x` as a table.
+ * Each WITH opens its own scope, and a non-recursive CTE is only in scope after
+ * its own body, so `WITH x AS (SELECT * FROM x)` still reads the real table `x`.
+ */
+class StatementWalker {
+    relations: RelationRef[] = []
+    writes: { node: any; clause: WriteClause }[] = []
+    functions: string[] = []
+    private cteScopes: Set<string>[] = []
+
+    walk(node: any): void {
+        if (!node || typeof node !== 'object') return
+
+        if (Array.isArray(node)) {
+            node.forEach(child => this.walk(child))
+            return
+        }
+
+        if (node.type === 'call' && node.function?.name) {
+            this.functions.push(node.function.schema ? `${node.function.schema}.${node.function.name}` : node.function.name)
+        }
+
+        switch (node.type) {
+            case 'with': {
+                // Later bindings may read earlier ones, but not themselves
+                const scope = new Set<string>()
+                this.cteScopes.push(scope)
+                for (const binding of node.bind) {
+                    this.walk(binding.statement)
+                    scope.add(binding.alias.name)
+                }
+                this.walk(node.in)
+                this.cteScopes.pop()
+                return
+            }
+
+            case 'with recursive':
+                this.cteScopes.push(new Set([node.alias.name]))
+                this.walk(node.bind)
+                this.walk(node.in)
+                this.cteScopes.pop()
+                return
+
+            case 'table':
+                if (node.name?.schema || !this.isCte(node.name?.name)) {
+                    this.addRelation(node.name, 'read')
+                }
+                this.walk(node.join)
+                return
+
+            case 'insert': {
+                const target = this.addRelation(node.into, 'insert')
+                this.writes.push({
+                    node,
+                    clause: {
+                        target,
+                        hasWhere: false,
+                        predicates: this.insertedValues(node),
+                        returning: !!node.returning?.length,
+                    },
+                })
+                if (node.onConflict && node.onConflict.do !== 'do nothing') {
+                    this.addRelation(node.into, 'update')
+                }
+                this.walk(node.insert)
+                this.walk(node.onConflict)
+                this.walk(node.returning)
+                return
+            }
+
+            case 'update': {
+                const target = this.addRelation(node.table, 'update')
+                this.writes.push({
+                    node,
+                    clause: {
+                        target,
+                        hasWhere: !!node.where,
+                        predicates: SqlParser.collectPredicates(node.where),
+                        returning: !!node.returning?.length,
+                    },
+                })
+                this.walk(node.sets)
+                this.walk(node.from)
+                this.walk(node.where)
+                this.walk(node.returning)
+                return
+            }
+
+            case 'delete': {
+                const target = this.addRelation(node.from, 'delete')
+                this.writes.push({
+                    node,
+                    clause: {
+                        target,
+                        hasWhere: !!node.where,
+                        predicates: SqlParser.collectPredicates(node.where),
+                        returning: !!node.returning?.length,
+                    },
+                })
+                this.walk(node.where)
+                this.walk(node.returning)
+                return
+            }
+
+            case 'truncate table':
+                node.tables.forEach((table: QName) => this.addRelation(table, 'ddl'))
+                return
+
+            case 'drop table':
+            case 'drop index':
+            case 'drop sequence':
+            case 'drop type':
+                node.names.forEach((name: QName) => this.addRelation(name, 'ddl'))
+                return
+
+            case 'alter table':
+                this.addRelation(node.table, 'ddl')
+                return
+
+            case 'create table':
+            case 'create view':
+            case 'create materialized view':
+                this.addRelation(node.name, 'ddl')
+                this.walk(node.query ?? node.columns)
+                return
+
+            case 'create index':
+                this.addRelation(node.table, 'ddl')
+                return
+        }
+
+        for (const [key, value] of Object.entries(node)) {
+            // SELECT ... FOR UPDATE: the locking clause is typed like a statement but is not one
+            if (key === 'for') continue
+            this.walk(value)
+        }
+    }
+
+    private isCte(name: string | undefined): boolean {
+        return !!name && this.cteScopes.some(scope => scope.has(name))
+    }
+
+    private addRelation(name: QName & { alias?: string }, role: RelationRole): RelationRef {
+        const relation: RelationRef = {
+            schema: name.schema,
+            name: name.name,
+            alias: name.alias,
+            role,
+        }
+        this.relations.push(relation)
+        return relation
+    }
+
+    /**
+     * For INSERT ... VALUES, columns given the same literal in every row
+     * behave like WHERE predicates for scope filtering
+     */
+    private insertedValues(node: any): WherePredicate[] {
+        if (node.insert?.type !== 'values' || !node.columns) return []
+
+        const predicates: WherePredicate[] = []
+
+        node.columns.forEach((column: { name: string }, index: number) => {
+            const values = node.insert.values.map((row: Expr[]) => row[index] && SqlParser.literalValue(row[index]))
+            if (values.every((v: string | undefined) => v !== undefined)) {
+                predicates.push({
+                    column: column.name,
+                    operator: 'IN',
+                    values: [...new Set<string>(values)],
+                })
+            }
+        })
+
+        return predicates
+    }
+}
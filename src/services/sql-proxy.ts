@@ -0,0 +1,575 @@
+/**
+ * SQL Proxy Service
+ * Local PostgreSQL wire-protocol proxy for temporary credentials
+ * Clients (psql, drivers) log in with their temp credentials; every Simple
+ * Query and every extended-protocol Parse is enforced through the session's
+ * blast radius and scope checks before it reaches the database
+ */
+
+import net from 'net'
+import tls from 'tls'
+import {
+    CANCEL_REQUEST_CODE,
+    ErrorFields,
+    GSSENC_REQUEST_CODE,
+    MessageReader,
+    PROTOCOL_VERSION_3,
+    PgWireProtocol,
+    SSL_REQUEST_CODE,
+    ScramClient,
+    WireMessage,
+} from './pg-wire-protocol'
+
+export interface SqlProxyConfig {
+    listenHost: string
+    listenPort: number
+    upstreamHost: string
+    upstreamPort: number
+    upstreamSsl: boolean
+    apiUrl: string          // Motia server hosting /proxy/authenticate and /session/:sessionId/log
+    proxySecret: string
+}
+
+export interface ProxySessionInfo {
+    sessionId: string
+    requestId: string
+    expiresAt: string
+}
+
+export type EnforcementVerdict =
+    | { allowed: true }
+    | { allowed: false; reason: string; hint?: string; fatal?: boolean }
+
+const API_TIMEOUT_MS = 10000
+
+export class SqlProxy {
+    private server?: net.Server
+
+    constructor(readonly config: SqlProxyConfig) {}
+
+    /**
+     * Proxy configuration from environment variables
+     */
+    static configFromEnv(): SqlProxyConfig {
+        return {
+            listenHost: process.env.GLASSKISS_PROXY_HOST || '127.0.0.1',
+            listenPort: parseInt(process.env.GLASSKISS_PROXY_PORT || '6432'),
+            upstreamHost: process.env.POSTGRES_HOST || 'localhost',
+            upstreamPort: parseInt(process.env.POSTGRES_PORT || '5432'),
+            upstreamSsl: process.env.POSTGRES_SSL === 'true',
+            apiUrl: process.env.GLASSKISS_API_URL || 'http://localhost:3000',
+            proxySecret: process.env.GLASSKISS_PROXY_SECRET || '',
+        }
+    }
+
+    /**
+     * Start accepting client connections
+     */
+    start(): Promise<void> {
+        if (!this.config.proxySecret) {
+            return Promise.reject(new Error('GLASSKISS_PROXY_SECRET must be set to start the SQL proxy'))
+        }
+
+        return new Promise((resolve, reject) => {
+            this.server = net.createServer((socket) => new ProxyConnection(this, socket))
+            this.server.once('error', reject)
+            this.server.listen(this.config.listenPort, this.config.listenHost, () => {
+                console.log(`[PROXY] ✅ Listening on ${this.config.listenHost}:${this.config.listenPort}`)
+                resolve()
+            })
+        })
+    }
+
+    /**
+     * Stop accepting connections
+     */
+    stop(): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this.server) return resolve()
+            this.server.close(() => resolve())
+        })
+    }
+
+    /**
+     * Verify temp credentials against the credentials state group
+     * Returns null when they are wrong or expired
+     */
+    async authenticate(username: string, password: string): Promise<ProxySessionInfo | null> {
+        const response = await fetch(`${this.config.apiUrl}/proxy/authenticate`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-glasskiss-proxy-secret': this.config.proxySecret,
+            },
+            body: JSON.stringify({ username, password }),
+            signal: AbortSignal.timeout(API_TIMEOUT_MS),
+        })
+
+        if (response.status === 401) {
+            return null
+        }
+        if (!response.ok) {
+            throw new Error(`Proxy authentication failed with HTTP ${response.status}`)
+        }
+
+        return await response.json() as ProxySessionInfo
+    }
+
+    /**
+     * Run a SQL command through the session's enforcement path (LogCommandAPI)
+     * Fails closed: anything but an explicit allow blocks the statement
+     */
+    async enforce(session: ProxySessionInfo, sql: string): Promise<EnforcementVerdict> {
+        try {
+            const response = await fetch(`${this.config.apiUrl}/session/${encodeURIComponent(session.sessionId)}/log`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ command: sql }),
+                signal: AbortSignal.timeout(API_TIMEOUT_MS),
+            })
+
+            if (response.status === 200) {
+                return { allowed: true }
+            }
+
+            const body: any = await response.json().catch(() => ({}))
+
+            if (response.status === 403) {
+                return {
+                    allowed: false,
+                    reason: body.blockReason ?? 'Blocked by policy',
+                    hint: body.scopeInfo ? `Approved scope: ${body.scopeInfo}` : undefined,
+                }
+            }
+            if (response.status === 404) {
+                return { allowed: false, reason: 'Session is no longer active', fatal: true }
+            }
+
+            return { allowed: false, reason: `Enforcement service returned HTTP ${response.status}` }
+        } catch (error) {
+            console.error('[PROXY] ❌ Enforcement service unreachable:', error)
+            return { allowed: false, reason: 'Enforcement service unreachable' }
+        }
+    }
+}
+
+// A response the client is owed, in the order its requests were sent:
+// either the database's (ends with its ReadyForQuery) or a locally generated rejection
+type Turn = { kind: 'upstream' } | { kind: 'local'; error?: Buffer }
+
+/**
+ * One client connection and its database connection
+ */
+class ProxyConnection {
+    private phase: 'startup' | 'password' | 'upstream_auth' | 'ready' | 'closed' = 'startup'
+    private readonly clientReader = new MessageReader(true)
+    private readonly upstreamReader = new MessageReader()
+    private upstream?: net.Socket
+    private startupParams: Record<string, string> = {}
+    private session?: ProxySessionInfo
+    private password = ''
+    private scram?: ScramClient
+    private queue: Promise<void> = Promise.resolve()
+
+    // Query-phase state
+    private txStatus = 'I'
+    private turns: Turn[] = []
+    private pending: Buffer[] = []         // extended-protocol messages held until Sync
+    private batchForwarded = false         // part of the current batch already went out on Flush
+    private discardError?: Buffer          // set when the current batch was blocked
+    private discardErrorSent = false
+
+    constructor(private proxy: SqlProxy, private client: net.Socket) {
+        client.on('data', (chunk: Buffer) => {
+            this.clientReader.push(chunk)
+            this.schedule()
+        })
+        client.on('error', () => this.close())
+        client.on('close', () => this.close())
+    }
+
+    /**
+     * Process client messages one at a time; enforcement is async
+     */
+    private schedule(): void {
+        this.client.pause()
+        this.queue = this.queue
+            .then(() => this.drainClient())
+            .catch((error) => this.fail(error))
+            .finally(() => {
+                if (this.phase !== 'closed') this.client.resume()
+            })
+    }
+
+    private async drainClient(): Promise<void> {
+        // While the database login is in flight, leave anything pipelined in the reader
+        while (this.phase !== 'closed' && this.phase !== 'upstream_auth') {
+            const message = this.clientReader.next()
+            if (!message) return
+
+            if (this.phase === 'startup') {
+                this.handleStartup(message)
+            } else if (this.phase === 'password') {
+                await this.handlePassword(message)
+            } else {
+                await this.handleFrontend(message)
+            }
+        }
+    }
+
+    // ========================================
+    // CLIENT LOGIN
+    // ========================================
+
+    private handleStartup(message: WireMessage): void {
+        const { code, params } = PgWireProtocol.parseStartup(message.body)
+
+        if (code === SSL_REQUEST_CODE || code === GSSENC_REQUEST_CODE) {
+            // No TLS between client and proxy; the proxy listens locally
+            this.client.write('N')
+            return
+        }
+        if (code === CANCEL_REQUEST_CODE) {
+            this.close()
+            return
+        }
+        if (code !== PROTOCOL_VERSION_3) {
+            return this.fatal('0A000', `Unsupported frontend protocol ${code >> 16}.${code & 0xffff}`)
+        }
+        if (!params.user) {
+            return this.fatal('28000', 'No user name specified in startup packet')
+        }
+
+        this.startupParams = params
+        this.clientReader.setUntyped(false)
+        this.phase = 'password'
+        this.client.write(PgWireProtocol.authenticationCleartextPassword())
+    }
+
+    private async handlePassword(message: WireMessage): Promise<void> {
+        if (message.type !== 'p') {
+            return this.fatal('08P01', 'Expected password message')
+        }
+
+        const username = this.startupParams.user
+        const password = PgWireProtocol.parsePassword(message.body)
+        const session = await this.proxy.authenticate(username, password)
+
+        if (!session) {
+            console.warn(`[PROXY] ❌ Authentication failed for ${username}`)
+            return this.fatal('28P01', `password authentication failed for user "${username}"`)
+        }
+
+        this.session = session
+        this.password = password
+        this.phase = 'upstream_auth'
+        this.connectUpstream()
+    }
+
+    // ========================================
+    // DATABASE LOGIN
+    // ========================================
+
+    private connectUpstream(): void {
+        const { upstreamHost, upstreamPort, upstreamSsl } = this.proxy.config
+        const socket = net.connect(upstreamPort, upstreamHost)
+
+        socket.on('error', (error) => {
+            console.error('[PROXY] ❌ Database connection error:', error.message)
+            this.fatal('08006', 'Connection to database server failed')
+        })
+
+        socket.once('connect', () => {
+            if (!upstreamSsl) {
+                return this.attachUpstream(socket)
+            }
+
+            socket.write(PgWireProtocol.sslRequest())
+            socket.once('data', (answer: Buffer) => {
+                if (answer[0] !== 'S'.charCodeAt(0)) {
+                    return this.fatal('08001', 'Database server refused SSL')
+                }
+                const secure = tls.connect({ socket, rejectUnauthorized: false })
+                secure.on('error', () => this.fatal('08006', 'Connection to database server failed'))
+                this.attachUpstream(secure)
+            })
+        })
+    }
+
+    private attachUpstream(socket: net.Socket): void {
+        this.upstream = socket
+        socket.on('data', (chunk: Buffer) => {
+            this.upstreamReader.push(chunk)
+            this.drainUpstream()
+        })
+        socket.on('close', () => this.close())
+        socket.write(PgWireProtocol.startupMessage(this.startupParams))
+    }
+
+    private drainUpstream(): void {
+        try {
+            while (this.phase !== 'closed') {
+                const message = this.upstreamReader.next()
+                if (!message) return
+
+                if (this.phase === 'upstream_auth') {
+                    this.handleUpstreamAuth(message)
+                } else {
+                    this.relayUpstream(message)
+                }
+            }
+        } catch (error) {
+            this.fail(error)
+        }
+    }
+
+    private handleUpstreamAuth(message: WireMessage): void {
+        const upstream = this.upstream!
+
+        if (message.type === 'E') {
+            this.client.write(message.raw)
+            return this.close()
+        }
+        if (message.type !== 'R') {
+            return this.fatal('08P01', `Unexpected message '${message.type}' during database login`)
+        }
+
+        const code = message.body.readInt32BE(0)
+        const username = this.startupParams.user
+
+        switch (code) {
+            case 0: {
+                // AuthenticationOk: from here on the database talks to the client
+                this.phase = 'ready'
+                this.turns.push({ kind: 'upstream' })  // the initial ReadyForQuery
+                this.client.write(message.raw)
+                console.log(`[PROXY] ✅ ${username} connected (session ${this.session!.sessionId})`)
+                this.schedule()
+                return
+            }
+            case 3:
+                upstream.write(PgWireProtocol.passwordMessage(this.password))
+                return
+            case 5:
+                upstream.write(PgWireProtocol.passwordMessage(
+                    PgWireProtocol.md5Password(username, this.password, message.body.subarray(4, 8))
+                ))
+                return
+            case 10: {
+                const mechanisms: string[] = []
+                let offset = 4
+                while (offset < message.body.length && message.body[offset] !== 0) {
+                    const mechanism = PgWireProtocol.readCString(message.body, offset)
+                    mechanisms.push(mechanism.value)
+                    offset = mechanism.next
+                }
+                if (!mechanisms.includes('SCRAM-SHA-256')) {
+                    return this.fatal('28000', `No supported SASL mechanism (offered: ${mechanisms.join(', ')})`)
+                }
+                this.scram = new ScramClient(this.password)
+                upstream.write(PgWireProtocol.saslInitialResponse('SCRAM-SHA-256', this.scram.clientFirstMessage()))
+                return
+            }
+            case 11:
+                upstream.write(PgWireProtocol.saslResponse(
+                    this.scram!.clientFinalMessage(message.body.subarray(4).toString('utf8'))
+                ))
+                return
+            case 12:
+                if (!this.scram!.verifyServerFinal(message.body.subarray(4).toString('utf8'))) {
+                    return this.fatal('28000', 'Database server failed SCRAM verification')
+                }
+                return
+            default:
+                return this.fatal('28000', `Unsupported database authentication method ${code}`)
+        }
+    }
+
+    private relayUpstream(message: WireMessage): void {
+        this.client.write(message.raw)
+
+        if (message.type === 'Z') {
+            this.txStatus = String.fromCharCode(message.body[0])
+            if (this.turns[0]?.kind === 'upstream') {
+                this.turns.shift()
+            }
+            this.flushLocalTurns()
+        }
+    }
+
+    // ========================================
+    // QUERY PHASE
+    // ========================================
+
+    private async handleFrontend(message: WireMessage): Promise<void> {
+        if (new Date(this.session!.expiresAt) <= new Date()) {
+            return this.fatal('28000', 'Temporary credentials have expired')
+        }
+
+        switch (message.type) {
+            case 'Q':
+                return this.handleSimpleQuery(message)
+            case 'P':
+                return this.handleParse(message)
+            case 'B':
+            case 'D':
+            case 'E':
+            case 'C':
+                if (!this.discardError) this.pending.push(message.raw)
+                return
+            case 'H':
+                return this.handleFlush(message)
+            case 'S':
+                return this.handleSync(message)
+            case 'd':
+            case 'c':
+            case 'f':
+                // COPY ... FROM STDIN data for a statement that was already allowed
+                this.upstream!.write(message.raw)
+                return
+            case 'F':
+                // Fast-path function calls bypass SQL parsing entirely
+                return this.pushLocalTurn(this.blockedError({
+                    allowed: false,
+                    reason: 'Fast-path function calls are not allowed through the proxy',
+                }))
+            case 'X':
+                this.close()
+                return
+            default:
+                return this.fatal('08P01', `Unsupported message type '${message.type}'`)
+        }
+    }
+
+    private async handleSimpleQuery(message: WireMessage): Promise<void> {
+        const verdict = await this.check(PgWireProtocol.parseQuery(message.body))
+
+        if (!verdict.allowed) {
+            if (verdict.fatal) return this.fatal('28000', verdict.reason)
+            return this.pushLocalTurn(this.blockedError(verdict))
+        }
+
+        this.turns.push({ kind: 'upstream' })
+        this.upstream!.write(message.raw)
+    }
+
+    private async handleParse(message: WireMessage): Promise<void> {
+        if (this.discardError) return
+
+        const verdict = await this.check(PgWireProtocol.parseParse(message.body).query)
+
+        if (verdict.allowed) {
+            this.pending.push(message.raw)
+            return
+        }
+        if (verdict.fatal) {
+            return this.fatal('28000', verdict.reason)
+        }
+        if (this.batchForwarded) {
+            // Earlier statements of this batch already ran and would commit at Sync
+            return this.fatal('42501', `GlassKiss blocked this statement: ${verdict.reason}`)
+        }
+
+        // Like the server after an error: drop everything up to the next Sync
+        this.pending = []
+        this.discardError = this.blockedError(verdict)
+    }
+
+    private handleFlush(message: WireMessage): void {
+        if (this.discardError) {
+            if (this.turns.length === 0 && !this.discardErrorSent) {
+                this.client.write(this.discardError)
+                this.discardErrorSent = true
+            }
+            return
+        }
+
+        this.batchForwarded = this.batchForwarded || this.pending.length > 0
+        this.upstream!.write(Buffer.concat([...this.pending, message.raw]))
+        this.pending = []
+    }
+
+    private handleSync(message: WireMessage): void {
+        if (this.discardError) {
+            this.pushLocalTurn(this.discardErrorSent ? undefined : this.discardError)
+        } else {
+            this.turns.push({ kind: 'upstream' })
+            this.upstream!.write(Buffer.concat([...this.pending, message.raw]))
+        }
+
+        this.pending = []
+        this.batchForwarded = false
+        this.discardError = undefined
+        this.discardErrorSent = false
+    }
+
+    private async check(sql: string): Promise<EnforcementVerdict> {
+        // Empty queries never reach a table; the server answers EmptyQueryResponse
+        if (sql.trim() === '') {
+            return { allowed: true }
+        }
+        return this.proxy.enforce(this.session!, sql)
+    }
+
+    private blockedError(verdict: Extract<EnforcementVerdict, { allowed: false }>): Buffer {
+        return PgWireProtocol.errorResponse({
+            severity: 'ERROR',
+            code: '42501',
+            message: `GlassKiss blocked this statement: ${verdict.reason}`,
+            hint: verdict.hint,
+        })
+    }
+
+    /**
+     * Answer a request locally, after any database responses the client is still owed
+     */
+    private pushLocalTurn(error?: Buffer): void {
+        this.turns.push({ kind: 'local', error })
+        this.flushLocalTurns()
+    }
+
+    private flushLocalTurns(): void {
+        while (this.turns[0]?.kind === 'local') {
+            const turn = this.turns.shift() as Extract<Turn, { kind: 'local' }>
+            this.client.write(Buffer.concat([
+                ...(turn.error ? [turn.error] : []),
+                PgWireProtocol.readyForQuery(this.txStatus),
+            ]))
+        }
+    }
+
+    // ========================================
+    // TEARDOWN
+    // ========================================
+
+    private fatal(code: string, message: string): void {
+        if (this.phase === 'closed') return
+
+        const fields: ErrorFields = { severity: 'FATAL', code, message }
+        this.client.write(PgWireProtocol.errorResponse(fields))
+        this.close()
+    }
+
+    private fail(error: unknown): void {
+        console.error('[PROXY] ❌ Connection error:', error)
+        this.fatal('XX000', 'GlassKiss proxy error')
+    }
+
+    private close(): void {
+        if (this.phase === 'closed') return
+
+        const wasReady = this.phase === 'ready'
+        this.phase = 'closed'
+
+        if (this.upstream && wasReady) {
+            this.upstream.end(PgWireProtocol.terminate())
+        } else {
+            this.upstream?.destroy()
+        }
+        this.client.end()
+
+        if (this.session) {
+            console.log(`[PROXY] Session ${this.session.sessionId} disconnected`)
+        }
+    }
+}
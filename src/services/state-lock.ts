@@ -0,0 +1,98 @@
+/**
+ * State Lock Service
+ * Mutual exclusion for read-modify-write of shared state records. Steps run
+ * in separate processes and the state API has no compare-and-set, so the
+ * lock lives outside it: a Postgres advisory lock in the GlassKiss database,
+ * taken atomically and released by Postgres if its holder dies.
+ *
+ * Without Postgres (STATE_LOCK_BACKEND=state, the default when
+ * CREDENTIAL_BACKEND is not postgres) a lease kept in state stands in for it.
+ * The lease only narrows the window for a race, it does not close it; use it
+ * for local runs with the simulated backend, not in production.
+ */
+
+import { randomUUID } from 'crypto'
+import { FlowContext } from 'motia'
+import { DatabaseService } from './database-service'
+
+type State = FlowContext['state']
+
+const LOCK_GROUP = 'locks'
+
+// How long to wait for a lock held by someone else
+const WAIT_MS = 10000
+
+// A lease holder that crashed releases its lease after this long
+const LEASE_MS = 5000
+
+// Time for a concurrent lease claim to overwrite ours before we check
+const SETTLE_MS = 25
+
+const MAX_ATTEMPTS = 40
+
+interface Lease {
+    id: string
+    owner: string
+    expiresAt: string
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export class StateLock {
+    /**
+     * Run fn while holding the lock on name/key. Not reentrant: fn must not
+     * take the same lock again
+     * Throws when the lock cannot be taken, rather than run unprotected
+     */
+    static async withLock<T>(state: State, name: string, key: string, fn: () => Promise<T>): Promise<T> {
+        const id = `${name}:${key}`
+        if (this.backend() === 'postgres') {
+            return DatabaseService.withAdvisoryLock(`glasskiss:${id}`, WAIT_MS, fn)
+        }
+
+        const owner = await this.acquire(state, id)
+        try {
+            return await fn()
+        } finally {
+            await this.release(state, id, owner)
+        }
+    }
+
+    private static backend(): 'postgres' | 'state' {
+        const configured = process.env.STATE_LOCK_BACKEND ?? process.env.CREDENTIAL_BACKEND
+        return configured === 'postgres' ? 'postgres' : 'state'
+    }
+
+    // Best-effort lease: claim, give concurrent claims time to land, re-check
+    private static async acquire(state: State, id: string): Promise<string> {
+        const owner = randomUUID()
+
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+            const current = await state.get<Lease>(LOCK_GROUP, id)
+            if (!current || new Date(current.expiresAt) <= new Date()) {
+                await state.set<Lease>(LOCK_GROUP, id, {
+                    id,
+                    owner,
+                    expiresAt: new Date(Date.now() + LEASE_MS).toISOString(),
+                })
+                await sleep(SETTLE_MS)
+
+                const claimed = await state.get<Lease>(LOCK_GROUP, id)
+                if (claimed?.owner === owner) {
+                    return owner
+                }
+            }
+
+            await sleep(SETTLE_MS * Math.min(attempt, 8) + Math.floor(Math.random() * SETTLE_MS))
+        }
+
+        throw new Error(`Could not lock ${id}`)
+    }
+
+    private static async release(state: State, id: string, owner: string): Promise<void> {
+        const current = await state.get<Lease>(LOCK_GROUP, id)
+        if (current?.owner === owner) {
+            await state.delete(LOCK_GROUP, id)
+        }
+    }
+}
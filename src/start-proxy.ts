@@ -0,0 +1,20 @@
+/**
+ * SQL Proxy Entry Point
+ * Starts the PostgreSQL wire-protocol proxy alongside the Motia server
+ * Run with: npx tsx src/start-proxy.ts
+ * Connect with: psql "host=127.0.0.1 port=6432 dbname=glasskiss user=<temp user>"
+ */
+
+import 'dotenv/config'
+import { SqlProxy } from './services/sql-proxy.js'
+
+const proxy = new SqlProxy(SqlProxy.configFromEnv())
+
+proxy.start().catch((error) => {
+    console.error('[PROXY] ❌ Failed to start:', error)
+    process.exit(1)
+})
+
+process.on('SIGINT', () => {
+    proxy.stop().then(() => process.exit(0))
+})
@@ -1,5 +1,6 @@
 import { StreamConfig } from 'motia'
 import { z } from 'zod'
+import { approvalPolicySchema, approvalSlaEventSchema, approvalSlaSchema } from '../services/glasskiss-types'
 
 export const approvalRequestStreamSchema = z.object({
     id: z.string(),
@@ -9,10 +10,15 @@ export const approvalRequestStreamSchema = z.object({
     accessLevel: z.string(),
     reason: z.string(),
     riskScore: z.number(),
-    status: z.enum(['pending', 'approved', 'rejected']),
+    status: z.enum(['pending', 'approved', 'rejected', 'expired', 'cancelled']),
     approvers: z.array(z.string()),
     requiredApprovals: z.number(),
     currentApprovals: z.number(),
+    approvedBy: z.array(z.string()),
+    version: z.number(),
+    policy: approvalPolicySchema.optional(),
+    sla: approvalSlaSchema.optional(),
+    slaEvents: z.array(approvalSlaEventSchema).optional(),
     timestamp: z.string(),
 })
 
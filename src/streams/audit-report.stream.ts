@@ -16,6 +16,8 @@ export const auditReportStreamSchema = z.object({
     flaggedCommands: z.number(),
     status: z.string(),
     revokeReason: z.string().optional(),
+    revokedBy: z.string().optional(),
+    revokeDetails: z.string().optional(),
 })
 
 export const config: StreamConfig = {
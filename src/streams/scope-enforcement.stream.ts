@@ -11,6 +11,7 @@ export const scopeEnforcementStreamSchema = z.object({
     reason: z.string().optional(),
     violationType: z.enum(['scope', 'blast_radius', 'operation', 'table', 'row_limit']).optional(),
     severity: z.enum(['low', 'medium', 'high', 'critical']),
+    estimatedRows: z.number().optional(),
 })
 
 export const config: StreamConfig = {
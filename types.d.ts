@@ -9,9 +9,9 @@ import { EventHandler, ApiRouteHandler, ApiResponse, MotiaStream, CronHandler }
 declare module 'motia' {
   interface FlowContextStateStreams {
     'sessionLog': MotiaStream<{ id: string; requestId: string; sessionId: string; timestamp: string; command: string; queryType: string; flagged: boolean; flagReason?: string }>
-    'auditReport': MotiaStream<{ id: string; requestId: string; requester: string; resource: string; accessLevel: string; approvers: Array<string>; riskScore: number; startTime: string; endTime: string; totalCommands: number; summary: string; flaggedCommands: number; status: string; revokeReason?: string }>
-    'approvalRequest': MotiaStream<{ id: string; requestId: string; requester: string; resource: string; accessLevel: string; reason: string; riskScore: number; status: 'pending' | 'approved' | 'rejected'; approvers: Array<string>; requiredApprovals: number; currentApprovals: number; timestamp: string }>
-    'scopeEnforcement': MotiaStream<{ id: string; sessionId: string; requestId: string; timestamp: string; command: string; decision: 'allowed' | 'blocked'; reason?: string; violationType?: 'scope' | 'blast_radius' | 'operation' | 'table' | 'row_limit'; severity: 'low' | 'medium' | 'high' | 'critical' }>
+    'auditReport': MotiaStream<{ id: string; requestId: string; requester: string; resource: string; accessLevel: string; approvers: Array<string>; riskScore: number; startTime: string; endTime: string; totalCommands: number; summary: string; flaggedCommands: number; status: string; revokeReason?: string; revokedBy?: string; revokeDetails?: string }>
+    'approvalRequest': MotiaStream<{ id: string; requestId: string; requester: string; resource: string; accessLevel: string; reason: string; riskScore: number; status: 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled'; approvers: Array<string>; requiredApprovals: number; currentApprovals: number; approvedBy: Array<string>; version: number; policy?: { rule: unknown; forbiddenPairings?: Array<{ requester: string; approver: string; reason?: string }> }; sla?: { remindAt: string; escalateAt: string; expireAt: string; escalateTo: string }; slaEvents?: Array<{ step: 'reminder' | 'escalation' | 'expiry'; at: string; notified: Array<string>; details?: string }>; timestamp: string }>
+    'scopeEnforcement': MotiaStream<{ id: string; sessionId: string; requestId: string; timestamp: string; command: string; decision: 'allowed' | 'blocked'; reason?: string; violationType?: 'scope' | 'blast_radius' | 'operation' | 'table' | 'row_limit'; severity: 'low' | 'medium' | 'high' | 'critical'; estimatedRows?: number }>
   }
 
   interface Handlers {
@@ -19,20 +19,36 @@ declare module 'motia' {
     'ProcessFoodOrder': EventHandler<{ email: string; quantity: number; petId: string }, { topic: 'notification'; data: { templateId: string; email: string; templateData: Record<string, unknown> } }>
     'Notification': EventHandler<{ templateId: string; email: string; templateData: Record<string, unknown> }, never>
     'ApiTrigger': ApiRouteHandler<{ pet: { name: string; photoUrl: string }; foodOrder?: { quantity: number } }, ApiResponse<200, { id: string; name: string; photoUrl: string }>, { topic: 'process-food-order'; data: { email: string; quantity: number; petId: string } }>
-    'StartTimer': EventHandler<{ requestId: string; duration: number }, { topic: 'revoke-access'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual'; details?: string } }>
+    'StartTimer': EventHandler<{ requestId: string; duration: number }, never>
     'StartMonitoring': EventHandler<{ requestId: string; sessionId: string }, never>
-    'RevokeAccess': EventHandler<{ requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual'; details?: string }, { topic: 'generate-audit'; data: { requestId: string } }>
+    'RevokeAccess': EventHandler<{ requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string }, { topic: 'generate-audit'; data: { requestId: string } }>
     'RequestApproval': EventHandler<{ requestId: string; requester: string; riskScore: number; resource: string; accessLevel: string; reason: string; requiredApprovals: number }, never>
     'ProvisionCredentials': EventHandler<{ requestId: string; requester: string; resource: string; accessLevel: string; duration: number; reason?: string }, { topic: 'start-monitoring'; data: { requestId: string; sessionId: string } } | { topic: 'start-timer'; data: { requestId: string; duration: number } }>
+    'ExtendAccess': EventHandler<{ requestId: string; extensionId: string }, never>
     'GenerateAudit': EventHandler<{ requestId: string }, never>
-    'DetectAnomaly': EventHandler<{ requestId: string; sessionId: string; command: string; logId: string }, { topic: 'force-revoke'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual'; details?: string } }>
+    'DetectAnomaly': EventHandler<{ requestId: string; sessionId: string; command: string; logId: string }, { topic: 'force-revoke'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string } }>
     'CalculateRiskScore': EventHandler<{ requestId: string; reason: string; resource: string; accessLevel: string }, { topic: 'request-approval'; data: { requestId: string; requester: string; riskScore: number; resource: string; accessLevel: string; reason: string; requiredApprovals: number } }>
-    'CheckActiveCredentials': CronHandler<never>
-    'RejectRequestAPI': ApiRouteHandler<{ approver: string; reason?: string }, ApiResponse<200, { requestId: string; status: string; message: string }> | ApiResponse<404, { error: string }>, never>
-    'LogCommandAPI': ApiRouteHandler<{ command: string }, ApiResponse<200, { logged: boolean; flagged: boolean; blocked?: boolean; blockReason?: string; scopeInfo?: string }>, { topic: 'detect-anomaly'; data: { requestId: string; sessionId: string; command: string; logId: string } }>
-    'ApproveRequestAPI': ApiRouteHandler<{ approver: string }, ApiResponse<200, { requestId: string; status: string; message: string }> | ApiResponse<404, { error: string }>, { topic: 'provision-credentials'; data: { requestId: string; requester: string; resource: string; accessLevel: string; duration: number; reason?: string } }>
-    'AccessRequestAPI': ApiRouteHandler<{ requester: string; resource: string; accessLevel: 'READ_ONLY' | 'READ_WRITE'; reason: string; duration: number }, ApiResponse<201, { requestId: string; status: string; message: string }> | ApiResponse<400, { error: string }>, { topic: 'calculate-risk-score'; data: { requestId: string; reason: string; resource: string; accessLevel: string } }>
-    'SlackInteractivityAPI': ApiRouteHandler<{ payload?: string; action?: 'approve' | 'reject'; requestId?: string; approver?: string }, unknown, { topic: 'provision-credentials'; data: { requestId: string; requester: string; resource: string; accessLevel: string; duration: number; reason?: string } }>
+    'CheckActiveCredentials': CronHandler<{ topic: 'force-revoke'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string } }>
+    'BypassWatcher': CronHandler<{ topic: 'force-revoke'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string } }>
+    'ApprovalSlaWatcher': CronHandler<never>
+    'RevocationSweeper': CronHandler<{ topic: 'revoke-access'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string } } | { topic: 'reconcile-sessions'; data: { trigger: 'startup' | 'manual' } }>
+    'ReconcileSessions': EventHandler<{ trigger: 'startup' | 'manual' }, { topic: 'generate-audit'; data: { requestId: string } }>
+    'RejectRequestAPI': ApiRouteHandler<{ reason?: string }, ApiResponse<200, { requestId: string; status: string; message: string }> | ApiResponse<404, { error: string }> | ApiResponse<409, { error: string }>, never>
+    'LogCommandAPI': ApiRouteHandler<{ command: string }, ApiResponse<200, { logged: boolean; flagged: boolean; blocked?: boolean; blockReason?: string; scopeInfo?: string; statements?: Array<{ statement: string; queryType: string; decision: 'allowed' | 'blocked'; reason?: string; violationType?: 'scope' | 'blast_radius' | 'operation' | 'table' | 'row_limit'; severity: 'low' | 'medium' | 'high' | 'critical'; estimatedRows?: number }> }>, { topic: 'detect-anomaly'; data: { requestId: string; sessionId: string; command: string; logId: string } }>
+    'ExecuteCommandAPI': ApiRouteHandler<{ command: string }, ApiResponse<200, { executed: boolean; results: Array<{ statement: string; queryType: string; success: boolean; committed: boolean; rowCount: number; rows: Array<Record<string, any>>; durationMs: number; error?: string }>; totalDurationMs: number; scopeInfo?: string }> | ApiResponse<404, { error: string }>, { topic: 'detect-anomaly'; data: { requestId: string; sessionId: string; command: string; logId: string } }>
+    'ReconcileSessionsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; trigger: 'startup' | 'manual'; startedAt: string; completedAt: string; providers: Array<string>; rolesChecked: number; stateEntriesChecked: number; orphanedRoles: Array<{ username: string; provider: string; requestId?: string; revoked: boolean }>; missingRoles: Array<{ requestId: string; username: string; resource: string }>; closedTracking: Array<string>; inFlight: Array<string>; errors: Array<string> }> | ApiResponse<403, { error: string }>, { topic: 'generate-audit'; data: { requestId: string } }>
+    'GetCredentialsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { requestId: string; resource: string; username: string; password: string; sessionId: string; expiresAt: string }> | ApiResponse<404, { error: string }> | ApiResponse<410, { error: string }>, never>
+    'KillSwitchAPI': ApiRouteHandler<{ action: 'freeze' | 'unfreeze'; reason: string; actor?: string }, ApiResponse<200, { id: string; frozen: boolean; reason: string; frozenBy: string; frozenAt: string; revokedRequestIds: Array<string>; liftedBy?: string; liftedAt?: string; liftReason?: string }> | ApiResponse<202, { id: string; frozen: boolean; reason: string; frozenBy: string; frozenAt: string; revokedRequestIds: Array<string>; liftedBy?: string; liftedAt?: string; liftReason?: string }> | ApiResponse<403, { error: string }> | ApiResponse<409, { error: string }>, { topic: 'freeze-sessions'; data: { freezeId: string } }>
+    'SlackCommandAPI': ApiRouteHandler<{ command?: string; text?: string; user_id?: string; user_name?: string }, unknown, { topic: 'freeze-sessions'; data: { freezeId: string } }>
+    'FreezeSessions': EventHandler<{ freezeId: string }, { topic: 'force-revoke'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string } }>
+    'GetAccessRequestAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { requestId: string; requester: string; resource: string; accessLevel: string; status: 'pending_risk' | 'pending_approval' | 'approved' | 'active' | 'revoked' | 'rejected' | 'cancelled' | 'expired' | 'revocation_failed'; riskScore: number; requiredApprovals: number; approvers: Array<string>; createdAt: string; approvedAt?: string; revokedAt?: string; revokeReason?: string; approvalSlaEvents: Array<{ step: 'reminder' | 'escalation' | 'expiry'; at: string; notified: Array<string>; details?: string }>; history: Array<{ from: 'pending_risk' | 'pending_approval' | 'approved' | 'active' | 'revoked' | 'rejected' | 'cancelled' | 'expired' | 'revocation_failed' | null; to: 'pending_risk' | 'pending_approval' | 'approved' | 'active' | 'revoked' | 'rejected' | 'cancelled' | 'expired' | 'revocation_failed'; actor: string; at: string; reason?: string }> }> | ApiResponse<404, { error: string }>, never>
+    'RevokeAccessAPI': ApiRouteHandler<{ reason?: string }, ApiResponse<200, { requestId: string; status: string; reason: 'manual' | 'forced'; message: string }> | ApiResponse<202, { requestId: string; status: string; reason: 'manual' | 'forced'; message: string }> | ApiResponse<400, { error: string }> | ApiResponse<404, { error: string }> | ApiResponse<409, { error: string }>, { topic: 'revoke-access'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string } } | { topic: 'force-revoke'; data: { requestId: string; reason: 'timer_expired' | 'forced' | 'anomaly_detected' | 'manual' | 'zombie' | 'bypass_detected'; details?: string; revokedBy?: string } }>
+    'ExtendAccessAPI': ApiRouteHandler<{ minutes: number; justification: string }, ApiResponse<202, { requestId: string; extensionId: string; status: string; riskScore: number; requiredApprovals: number; approvers: Array<string>; message: string }> | ApiResponse<404, { error: string }> | ApiResponse<409, { error: string }>, never>
+    'ExtensionDecisionAPI': ApiRouteHandler<{ decision: 'approve' | 'reject' }, ApiResponse<200, { requestId: string; extensionId: string; status: string; message: string }> | ApiResponse<404, { error: string }>, { topic: 'extend-access'; data: { requestId: string; extensionId: string } }>
+    'ProxyAuthAPI': ApiRouteHandler<{ username: string; password: string }, ApiResponse<200, { sessionId: string; requestId: string; expiresAt: string }> | ApiResponse<401, { error: string }>, never>
+    'ApproveRequestAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { requestId: string; status: string; message: string }> | ApiResponse<404, { error: string }> | ApiResponse<409, { error: string }>, { topic: 'provision-credentials'; data: { requestId: string; requester: string; resource: string; accessLevel: string; duration: number; reason?: string } }>
+    'AccessRequestAPI': ApiRouteHandler<{ resource: string; accessLevel: 'READ_ONLY' | 'READ_WRITE'; reason: string; duration: number }, ApiResponse<201, { requestId: string; status: string; message: string; requesterToken: string }> | ApiResponse<400, { error: string }> | ApiResponse<423, { error: string }>, { topic: 'calculate-risk-score'; data: { requestId: string; reason: string; resource: string; accessLevel: string } }>
+    'SlackInteractivityAPI': ApiRouteHandler<{ payload?: string }, unknown, { topic: 'provision-credentials'; data: { requestId: string; requester: string; resource: string; accessLevel: string; duration: number; reason?: string } } | { topic: 'extend-access'; data: { requestId: string; extensionId: string } }>
   }
     
 }
\ No newline at end of file